@@ -0,0 +1,293 @@
+import { ParseErrorCode } from "./Tokenizer.js";
+
+/** The contents of a `<!DOCTYPE>` declaration. */
+export interface Doctype {
+    /** The lowercased name of the doctype, or `null` if it is missing. */
+    name: string | null;
+    /** The public identifier, or `null` if it is missing. */
+    publicId: string | null;
+    /** The system identifier, or `null` if it is missing. */
+    systemId: string | null;
+    /** Indicates that the doctype was malformed, and forces quirks mode. */
+    forceQuirks: boolean;
+}
+
+/**
+ * The rendering mode browsers would use for a document.
+ *
+ * @see https://dom.spec.whatwg.org/#concept-document-mode
+ */
+export type DocumentMode = "no-quirks" | "limited-quirks" | "quirks";
+
+function isWhitespace(c: string): boolean {
+    return c === " " || c === "\n" || c === "\t" || c === "\f" || c === "\r";
+}
+
+function isQuote(c: string): boolean {
+    return c === '"' || c === "'";
+}
+
+/**
+ * Parses the contents of a `<!DOCTYPE>` declaration, following the DOCTYPE
+ * states of the WHATWG tokenizer.
+ *
+ * @param value The declaration between `<!` and `>`, starting with `doctype`.
+ * @param onError Called for parse errors, with the offset within `value`.
+ * @returns The parsed doctype.
+ * @see https://html.spec.whatwg.org/multipage/parsing.html#doctype-state
+ */
+export function parseDoctype(
+    value: string,
+    onError?: (code: ParseErrorCode, offset: number) => void,
+): Doctype {
+    const doctype: Doctype = {
+        name: null,
+        publicId: null,
+        systemId: null,
+        forceQuirks: false,
+    };
+    // Skip the `doctype` keyword.
+    let index = 7;
+
+    /** Skips whitespace, and returns whether there was any. */
+    function skipWhitespace(): boolean {
+        const start = index;
+        while (index < value.length && isWhitespace(value[index])) index++;
+        return index > start;
+    }
+
+    function error(code: ParseErrorCode, forceQuirks: boolean) {
+        onError?.(code, index);
+        if (forceQuirks) doctype.forceQuirks = true;
+    }
+
+    /** Reads a quoted identifier. The end of the value acts as the `>`. */
+    function readIdentifier(abruptCode: ParseErrorCode): string {
+        const quote = value[index];
+        const end = value.indexOf(quote, index + 1);
+        const identifier = value.slice(index + 1, end < 0 ? undefined : end);
+        index = end < 0 ? value.length : end + 1;
+        if (end < 0) error(abruptCode, true);
+        return identifier;
+    }
+
+    /** Reads the system identifier after the `SYSTEM` keyword or the public identifier. */
+    function readSystemIdentifier(
+        hadWhitespace: boolean,
+        missingWhitespaceCode: ParseErrorCode,
+    ): void {
+        if (!isQuote(value[index])) {
+            error(
+                ParseErrorCode.MissingQuoteBeforeDoctypeSystemIdentifier,
+                true,
+            );
+            return;
+        }
+        if (!hadWhitespace) error(missingWhitespaceCode, false);
+
+        doctype.systemId = readIdentifier(
+            ParseErrorCode.AbruptDoctypeSystemIdentifier,
+        );
+
+        skipWhitespace();
+        if (index < value.length) {
+            error(
+                ParseErrorCode.UnexpectedCharacterAfterDoctypeSystemIdentifier,
+                false,
+            );
+        }
+    }
+
+    if (!skipWhitespace() && index < value.length) {
+        error(ParseErrorCode.MissingWhitespaceBeforeDoctypeName, false);
+    }
+    if (index === value.length) {
+        error(ParseErrorCode.MissingDoctypeName, true);
+        return doctype;
+    }
+
+    const nameStart = index;
+    while (index < value.length && !isWhitespace(value[index])) index++;
+    doctype.name = value
+        .slice(nameStart, index)
+        .replace(/[A-Z]/g, (c) => c.toLowerCase());
+
+    skipWhitespace();
+    if (index === value.length) return doctype;
+
+    const keyword = value.substr(index, 6).toLowerCase();
+
+    if (keyword === "public") {
+        index += 6;
+        const hadWhitespace = skipWhitespace();
+
+        if (index === value.length) {
+            error(ParseErrorCode.MissingDoctypePublicIdentifier, true);
+            return doctype;
+        }
+        if (!isQuote(value[index])) {
+            error(
+                ParseErrorCode.MissingQuoteBeforeDoctypePublicIdentifier,
+                true,
+            );
+            return doctype;
+        }
+        if (!hadWhitespace) {
+            error(
+                ParseErrorCode.MissingWhitespaceAfterDoctypePublicKeyword,
+                false,
+            );
+        }
+
+        doctype.publicId = readIdentifier(
+            ParseErrorCode.AbruptDoctypePublicIdentifier,
+        );
+
+        // The system identifier is optional after a public identifier.
+        const hadSeparator = skipWhitespace();
+        if (index < value.length) {
+            readSystemIdentifier(
+                hadSeparator,
+                ParseErrorCode.MissingWhitespaceBetweenDoctypePublicAndSystemIdentifiers,
+            );
+        }
+    } else if (keyword === "system") {
+        index += 6;
+        const hadWhitespace = skipWhitespace();
+
+        if (index === value.length) {
+            error(ParseErrorCode.MissingDoctypeSystemIdentifier, true);
+            return doctype;
+        }
+
+        readSystemIdentifier(
+            hadWhitespace,
+            ParseErrorCode.MissingWhitespaceAfterDoctypeSystemKeyword,
+        );
+    } else {
+        error(ParseErrorCode.InvalidCharacterSequenceAfterDoctypeName, true);
+    }
+
+    return doctype;
+}
+
+const quirksPublicIds = new Set([
+    "-//w3o//dtd w3 html strict 3.0//en//",
+    "-/w3c/dtd html 4.0 transitional/en",
+    "html",
+]);
+
+const quirksPublicIdPrefixes = [
+    "+//Silmaril//dtd html Pro v0r11 19970101//",
+    "-//AS//DTD HTML 3.0 asWedit + extensions//",
+    "-//AdvaSoft Ltd//DTD HTML 3.0 asWedit + extensions//",
+    "-//IETF//DTD HTML 2.0 Level 1//",
+    "-//IETF//DTD HTML 2.0 Level 2//",
+    "-//IETF//DTD HTML 2.0 Strict Level 1//",
+    "-//IETF//DTD HTML 2.0 Strict Level 2//",
+    "-//IETF//DTD HTML 2.0 Strict//",
+    "-//IETF//DTD HTML 2.0//",
+    "-//IETF//DTD HTML 2.1E//",
+    "-//IETF//DTD HTML 3.0//",
+    "-//IETF//DTD HTML 3.2 Final//",
+    "-//IETF//DTD HTML 3.2//",
+    "-//IETF//DTD HTML 3//",
+    "-//IETF//DTD HTML Level 0//",
+    "-//IETF//DTD HTML Level 1//",
+    "-//IETF//DTD HTML Level 2//",
+    "-//IETF//DTD HTML Level 3//",
+    "-//IETF//DTD HTML Strict Level 0//",
+    "-//IETF//DTD HTML Strict Level 1//",
+    "-//IETF//DTD HTML Strict Level 2//",
+    "-//IETF//DTD HTML Strict Level 3//",
+    "-//IETF//DTD HTML Strict//",
+    "-//IETF//DTD HTML//",
+    "-//Metrius//DTD Metrius Presentational//",
+    "-//Microsoft//DTD Internet Explorer 2.0 HTML Strict//",
+    "-//Microsoft//DTD Internet Explorer 2.0 HTML//",
+    "-//Microsoft//DTD Internet Explorer 2.0 Tables//",
+    "-//Microsoft//DTD Internet Explorer 3.0 HTML Strict//",
+    "-//Microsoft//DTD Internet Explorer 3.0 HTML//",
+    "-//Microsoft//DTD Internet Explorer 3.0 Tables//",
+    "-//Netscape Comm. Corp.//DTD HTML//",
+    "-//Netscape Comm. Corp.//DTD Strict HTML//",
+    "-//O'Reilly and Associates//DTD HTML 2.0//",
+    "-//O'Reilly and Associates//DTD HTML Extended 1.0//",
+    "-//O'Reilly and Associates//DTD HTML Extended Relaxed 1.0//",
+    "-//SQ//DTD HTML 2.0 HoTMetaL + extensions//",
+    "-//SoftQuad Software//DTD HoTMetaL PRO 6.0::19990601::extensions to HTML 4.0//",
+    "-//SoftQuad//DTD HoTMetaL PRO 4.0::19971010::extensions to HTML 4.0//",
+    "-//Spyglass//DTD HTML 2.0 Extended//",
+    "-//Sun Microsystems Corp.//DTD HotJava HTML//",
+    "-//Sun Microsystems Corp.//DTD HotJava Strict HTML//",
+    "-//W3C//DTD HTML 3 1995-03-24//",
+    "-//W3C//DTD HTML 3.2 Draft//",
+    "-//W3C//DTD HTML 3.2 Final//",
+    "-//W3C//DTD HTML 3.2//",
+    "-//W3C//DTD HTML 3.2S Draft//",
+    "-//W3C//DTD HTML 4.0 Frameset//",
+    "-//W3C//DTD HTML 4.0 Transitional//",
+    "-//W3C//DTD HTML Experimental 19960712//",
+    "-//W3C//DTD HTML Experimental 970421//",
+    "-//W3C//DTD W3 HTML//",
+    "-//W3O//DTD W3 HTML 3.0//",
+    "-//WebTechs//DTD Mozilla HTML 2.0//",
+    "-//WebTechs//DTD Mozilla HTML//",
+].map((prefix) => prefix.toLowerCase());
+
+/** Prefixes that trigger quirks mode without, and limited-quirks mode with a system identifier. */
+const html401PublicIdPrefixes = [
+    "-//w3c//dtd html 4.01 frameset//",
+    "-//w3c//dtd html 4.01 transitional//",
+];
+
+const limitedQuirksPublicIdPrefixes = [
+    "-//w3c//dtd xhtml 1.0 frameset//",
+    "-//w3c//dtd xhtml 1.0 transitional//",
+];
+
+function startsWithAny(value: string, prefixes: string[]): boolean {
+    return prefixes.some((prefix) => value.startsWith(prefix));
+}
+
+/**
+ * Determines the document mode a doctype puts the document in.
+ *
+ * @param doctype The doctype of the document.
+ * @returns The document mode.
+ * @see https://html.spec.whatwg.org/multipage/parsing.html#the-initial-insertion-mode
+ */
+export function getDocumentMode(doctype: Doctype): DocumentMode {
+    if (doctype.forceQuirks || doctype.name !== "html") return "quirks";
+
+    const systemId = doctype.systemId?.toLowerCase();
+    if (
+        systemId ===
+        "http://www.ibm.com/data/dtd/v11/ibmxhtml1-transitional.dtd"
+    ) {
+        return "quirks";
+    }
+
+    if (doctype.publicId === null) return "no-quirks";
+
+    const publicId = doctype.publicId.toLowerCase();
+
+    if (
+        quirksPublicIds.has(publicId) ||
+        startsWithAny(publicId, quirksPublicIdPrefixes) ||
+        (systemId === undefined &&
+            startsWithAny(publicId, html401PublicIdPrefixes))
+    ) {
+        return "quirks";
+    }
+
+    if (
+        startsWithAny(publicId, limitedQuirksPublicIdPrefixes) ||
+        (systemId !== undefined &&
+            startsWithAny(publicId, html401PublicIdPrefixes))
+    ) {
+        return "limited-quirks";
+    }
+
+    return "no-quirks";
+}
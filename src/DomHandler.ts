@@ -0,0 +1,258 @@
+import {
+    DomHandler as BaseDomHandler,
+    Document,
+    isTag,
+    isDirective,
+    isDocument,
+    type ChildNode,
+    type DomHandlerOptions,
+    type Element,
+} from "domhandler";
+import type { Attribute, Parser, ParserOptions } from "./Parser.js";
+import { getForeignAttributeName } from "./ForeignContent.js";
+import { Namespace, type QualifiedName } from "./Namespaces.js";
+import type { SourcePosition } from "./Tokenizer.js";
+
+interface SourceCodeLocation {
+    startLine: number;
+    startCol: number;
+    startOffset: number;
+    endLine: number;
+    endCol: number;
+    endOffset: number;
+}
+
+/**
+ * Elements additionally keep their attributes, including source ranges,
+ * whether their start tag used self-closing syntax, and the content of
+ * templates.
+ */
+type ElementWithAttributes = Element & {
+    "x-attributes"?: Attribute[];
+    "x-selfClosing"?: boolean;
+    "x-content"?: Document;
+};
+
+/** Records the namespaces of attributes the way `parse5` does. */
+function addAttributeNamespaces(
+    element: Element,
+    attributes: Iterable<Partial<QualifiedName> & { name: string }>,
+) {
+    for (const { name, namespace, prefix } of attributes) {
+        if (!namespace) continue;
+
+        element["x-attribsNamespace"] ??= {};
+        element["x-attribsNamespace"][name] = namespace;
+
+        if (prefix) {
+            element["x-attribsPrefix"] ??= {};
+            element["x-attribsPrefix"][name] = prefix;
+        }
+    }
+}
+
+/**
+ * Creates a `parse5`-style location. Unlike the parser's end index, the end
+ * of the location points directly after the last character.
+ */
+function getLocation(
+    start: SourcePosition,
+    end: SourcePosition,
+): SourceCodeLocation {
+    return {
+        startLine: start.line,
+        startCol: start.column,
+        startOffset: start.offset,
+        endLine: end.line,
+        endCol: end.column + 1,
+        endOffset: end.offset + 1,
+    };
+}
+
+/**
+ * A `DomHandler` that adds source code locations to nodes if the parser was
+ * created with the `sourceCodeLocationInfo` option. With the `syntaxDetails`
+ * option, it keeps the attribute list of elements as `x-attributes`, and
+ * marks elements written with self-closing syntax with `x-selfClosing`.
+ *
+ * Like `parse5`, it also records the details of doctypes, the document mode
+ * of documents with a doctype and the namespaces of attributes in `x-`
+ * properties. The content of `<template>` elements is placed in a document
+ * fragment, which is kept as `x-content` of the template instead of its
+ * children.
+ */
+export class DomHandler extends BaseDomHandler {
+    /** The parser that is feeding this handler. */
+    private parserInstance: Parser | null = null;
+    /** The document mode is only recorded for documents with a doctype. */
+    private hasDoctype = false;
+    /**
+     * Elements in HTML documents only get a namespace if it isn't the HTML
+     * namespace. With `xmlNamespaces`, all namespaces are kept.
+     */
+    private readonly keepHtmlNamespace: boolean;
+
+    /**
+     * @param callback Called once parsing has completed.
+     * @param options Settings for the handler. Pass the `xmlNamespaces` option
+     * of the parser as well, so that elements keep the HTML namespace.
+     * @param elementCB Called whenever a tag is closed.
+     */
+    constructor(
+        callback?: ConstructorParameters<typeof BaseDomHandler>[0],
+        options?:
+            | (DomHandlerOptions & Pick<ParserOptions, "xmlNamespaces">)
+            | null,
+        elementCB?: ConstructorParameters<typeof BaseDomHandler>[2],
+    ) {
+        super(callback, options, elementCB);
+        this.keepHtmlNamespace = !!options?.xmlNamespaces;
+    }
+
+    override onparserinit(parser: Parser): void {
+        super.onparserinit(parser);
+        this.parserInstance = parser;
+    }
+
+    override onreset(): void {
+        super.onreset();
+        this.parserInstance = null;
+        this.hasDoctype = false;
+    }
+
+    override onend(): void {
+        if (this.parserInstance && this.hasDoctype) {
+            this.root["x-mode"] = this.parserInstance.documentMode;
+        }
+        super.onend();
+        this.parserInstance = null;
+    }
+
+    /** Adds the details of the doctype to its processing instruction. */
+    ondoctype(
+        name: string | null,
+        publicId: string | null,
+        systemId: string | null,
+    ): void {
+        const parent = this.tagStack[this.tagStack.length - 1];
+        const node = parent.children[parent.children.length - 1];
+        this.hasDoctype = true;
+
+        if (isDirective(node)) {
+            node["x-name"] = name ?? "";
+            node["x-publicId"] = publicId ?? "";
+            node["x-systemId"] = systemId ?? "";
+        }
+    }
+
+    override onopentag(
+        name: string,
+        attribs: Record<string, string>,
+        _isImplied?: boolean,
+        attributes?: Attribute[],
+        qualifiedName?: QualifiedName,
+        isSelfClosing?: boolean,
+    ): void {
+        super.onopentag(name, attribs);
+
+        const element = this.tagStack[
+            this.tagStack.length - 1
+        ] as ElementWithAttributes;
+
+        if (attributes) {
+            element["x-attributes"] = attributes;
+            addAttributeNamespaces(element, attributes);
+        }
+
+        const namespace = qualifiedName?.namespace;
+        if (
+            namespace &&
+            (namespace !== Namespace.HTML || this.keepHtmlNamespace)
+        ) {
+            element.namespace = namespace;
+        }
+
+        // Without the attribute list, only foreign attributes have a namespace.
+        if (
+            !attributes &&
+            (namespace === Namespace.SVG || namespace === Namespace.MathML)
+        ) {
+            addAttributeNamespaces(
+                element,
+                Object.keys(attribs).map((name) => ({
+                    name,
+                    ...getForeignAttributeName(name, namespace),
+                })),
+            );
+        }
+
+        if (isSelfClosing) element["x-selfClosing"] = true;
+
+        if (name === "template" && namespace === Namespace.HTML) {
+            const content = new Document([]);
+            element["x-content"] = content;
+            this.tagStack.push(content);
+        }
+    }
+
+    override onclosetag(_name?: string, isImplied?: boolean): void {
+        // The root is the only other document on the stack.
+        if (
+            this.tagStack.length > 1 &&
+            isDocument(this.tagStack[this.tagStack.length - 1])
+        ) {
+            this.tagStack.pop();
+        }
+
+        const element = this.tagStack[this.tagStack.length - 1] as Element;
+        super.onclosetag();
+
+        const location = this.getLocation();
+        if (location && element.sourceCodeLocation) {
+            element.sourceCodeLocation.endLine = location.endLine;
+            element.sourceCodeLocation.endCol = location.endCol;
+            element.sourceCodeLocation.endOffset = location.endOffset;
+            if (!isImplied) element.sourceCodeLocation.endTag = location;
+        }
+    }
+
+    override ontext(data: string): void {
+        super.ontext(data);
+        this.updateEnd();
+    }
+
+    override oncomment(data: string): void {
+        super.oncomment(data);
+        this.updateEnd();
+    }
+
+    protected override addNode(node: ChildNode): void {
+        super.addNode(node);
+
+        const location = this.getLocation();
+        if (!location) return;
+
+        node.sourceCodeLocation = isTag(node)
+            ? { ...location, startTag: location }
+            : location;
+    }
+
+    /** Text and comments might be split across multiple events. */
+    private updateEnd() {
+        const location = this.getLocation();
+        const { lastNode } = this;
+
+        if (location && lastNode?.sourceCodeLocation) {
+            lastNode.sourceCodeLocation.endLine = location.endLine;
+            lastNode.sourceCodeLocation.endCol = location.endCol;
+            lastNode.sourceCodeLocation.endOffset = location.endOffset;
+        }
+    }
+
+    private getLocation(): SourceCodeLocation | null {
+        const start = this.parserInstance?.startPosition;
+        const end = this.parserInstance?.endPosition;
+
+        return start && end ? getLocation(start, end) : null;
+    }
+}
@@ -0,0 +1,322 @@
+import { decodeCodePoint } from "entities/dist/decode.js";
+import { ParseErrorCode } from "./Tokenizer.js";
+
+/** An `<!ELEMENT>` declaration. */
+export interface ElementDeclaration {
+    type: "element";
+    name: string;
+    /** The allowed content, eg. `EMPTY`, `ANY` or `(#PCDATA|b)*`. */
+    contentModel: string;
+}
+
+/** A single attribute of an `<!ATTLIST>` declaration. */
+export interface AttributeDeclaration {
+    type: "attribute";
+    /** The name of the element the attribute belongs to. */
+    elementName: string;
+    name: string;
+    /** The type of the attribute, eg. `CDATA`, `ID` or `(a|b)`. */
+    attributeType: string;
+    /** The keyword before the default value, or `null` if there is none. */
+    mode: "#REQUIRED" | "#IMPLIED" | "#FIXED" | null;
+    /** The default value as written, or `null` if there is none. */
+    defaultValue: string | null;
+}
+
+/** An `<!ENTITY>` declaration. */
+export interface EntityDeclaration {
+    type: "entity";
+    name: string;
+    /** Indicates that the entity was declared with `%`. */
+    isParameterEntity: boolean;
+    /**
+     * The replacement text of an internal entity, with character references
+     * decoded. `null` for external entities.
+     */
+    value: string | null;
+    /** The public identifier, or `null` if it is missing. */
+    publicId: string | null;
+    /** The system identifier, or `null` if it is missing. */
+    systemId: string | null;
+}
+
+export type DtdDeclaration =
+    | ElementDeclaration
+    | AttributeDeclaration
+    | EntityDeclaration;
+
+function isWhitespace(c: string): boolean {
+    return c === " " || c === "\n" || c === "\t" || c === "\r";
+}
+
+function isQuote(c: string): boolean {
+    return c === '"' || c === "'";
+}
+
+const reCharacterReference = /&#(?:x([\da-f]+)|(\d+));/gi;
+
+/**
+ * Decodes character references. Other references are kept, as they are only
+ * expanded once the entity is used.
+ *
+ * @see https://www.w3.org/TR/xml/#intern-replacement
+ */
+function getReplacementText(value: string): string {
+    return value.replace(
+        reCharacterReference,
+        (_, hex?: string, dec?: string) =>
+            decodeCodePoint(hex ? Number.parseInt(hex, 16) : Number(dec)),
+    );
+}
+
+/**
+ * Parses the internal subset of a `<!DOCTYPE>` declaration.
+ *
+ * Only the declarations are returned; comments, processing instructions and
+ * `<!NOTATION>` declarations are skipped. Parameter entity references
+ * between declarations aren't expanded.
+ *
+ * @param value The declaration between `<!` and `>`, starting with `DOCTYPE`.
+ * @param onError Called for malformed declarations, with the offset within `value`.
+ * @returns The declarations, in source order.
+ * @see https://www.w3.org/TR/xml/#NT-intSubset
+ */
+export function parseInternalSubset(
+    value: string,
+    onError?: (code: ParseErrorCode, offset: number) => void,
+): DtdDeclaration[] {
+    const declarations: DtdDeclaration[] = [];
+    let index = 0;
+
+    /** Skips whitespace, and returns whether there was any. */
+    function skipWhitespace(): boolean {
+        const start = index;
+        while (index < value.length && isWhitespace(value[index])) index++;
+        return index > start;
+    }
+
+    /** Moves to the index after `end`, or to the end of the value. */
+    function skipPast(end: string): void {
+        const endIndex = value.indexOf(end, index);
+        index = endIndex < 0 ? value.length : endIndex + end.length;
+    }
+
+    function readName(): string {
+        const start = index;
+        while (
+            index < value.length &&
+            !isWhitespace(value[index]) &&
+            !isQuote(value[index]) &&
+            !"<>()[]%".includes(value[index])
+        ) {
+            index++;
+        }
+        return value.slice(start, index);
+    }
+
+    /** Reads a quoted string, or returns `null` if there is none. */
+    function readQuoted(): string | null {
+        if (!isQuote(value[index])) return null;
+        const end = value.indexOf(value[index], index + 1);
+        if (end < 0) return null;
+        const quoted = value.slice(index + 1, end);
+        index = end + 1;
+        return quoted;
+    }
+
+    /** Skips to the end of a declaration, ignoring quoted `>` characters. */
+    function skipDeclaration(): void {
+        while (index < value.length && value[index] !== ">") {
+            if (isQuote(value[index])) {
+                const end = value.indexOf(value[index], index + 1);
+                if (end < 0) break;
+                index = end;
+            }
+            index++;
+        }
+        index++;
+    }
+
+    /** Reads a keyword, followed by whitespace. */
+    function readKeyword(keyword: string): boolean {
+        if (
+            !value.startsWith(keyword, index) ||
+            !isWhitespace(value.charAt(index + keyword.length))
+        ) {
+            return false;
+        }
+        index += keyword.length;
+        skipWhitespace();
+        return true;
+    }
+
+    /** Reads `>`, optionally preceded by whitespace. */
+    function readDeclarationEnd(): boolean {
+        skipWhitespace();
+        if (value[index] !== ">") return false;
+        index++;
+        return true;
+    }
+
+    function readElement(): boolean {
+        const name = readName();
+        if (!name || !skipWhitespace()) return false;
+
+        const end = value.indexOf(">", index);
+        if (end < 0) return false;
+        const contentModel = value.slice(index, end).trim();
+        index = end + 1;
+        if (!contentModel) return false;
+
+        declarations.push({ type: "element", name, contentModel });
+        return true;
+    }
+
+    function readAttributeList(): boolean {
+        const elementName = readName();
+        if (!elementName) return false;
+
+        while (!readDeclarationEnd()) {
+            const name = readName();
+            if (!name || !skipWhitespace()) return false;
+
+            let attributeType = readName();
+            if (attributeType === "NOTATION") skipWhitespace();
+            if (value[index] === "(") {
+                const start = index;
+                skipPast(")");
+                const enumeration = value.slice(start, index);
+                attributeType = attributeType
+                    ? `${attributeType} ${enumeration}`
+                    : enumeration;
+            }
+            if (!attributeType || !skipWhitespace()) return false;
+
+            let mode: AttributeDeclaration["mode"] = null;
+            let defaultValue: string | null = null;
+
+            if (value[index] === "#") {
+                const keyword = readName();
+                if (
+                    keyword !== "#REQUIRED" &&
+                    keyword !== "#IMPLIED" &&
+                    keyword !== "#FIXED"
+                ) {
+                    return false;
+                }
+                mode = keyword;
+            }
+            if (mode === null || mode === "#FIXED") {
+                skipWhitespace();
+                defaultValue = readQuoted();
+                if (defaultValue === null) return false;
+            }
+
+            declarations.push({
+                type: "attribute",
+                elementName,
+                name,
+                attributeType,
+                mode,
+                defaultValue,
+            });
+        }
+
+        return true;
+    }
+
+    function readEntity(): boolean {
+        const isParameterEntity = value[index] === "%";
+        if (isParameterEntity) {
+            index++;
+            if (!skipWhitespace()) return false;
+        }
+
+        const name = readName();
+        if (!name || !skipWhitespace()) return false;
+
+        const declaration: EntityDeclaration = {
+            type: "entity",
+            name,
+            isParameterEntity,
+            value: null,
+            publicId: null,
+            systemId: null,
+        };
+
+        if (isQuote(value[index])) {
+            const literal = readQuoted();
+            if (literal === null) return false;
+            declaration.value = getReplacementText(literal);
+        } else {
+            if (readKeyword("PUBLIC")) {
+                declaration.publicId = readQuoted();
+                if (declaration.publicId === null || !skipWhitespace()) {
+                    return false;
+                }
+            } else if (!readKeyword("SYSTEM")) {
+                return false;
+            }
+
+            declaration.systemId = readQuoted();
+            if (declaration.systemId === null) return false;
+
+            // Unparsed entities reference a notation.
+            if (
+                !isParameterEntity &&
+                skipWhitespace() &&
+                readKeyword("NDATA") &&
+                !readName()
+            ) {
+                return false;
+            }
+        }
+
+        if (!readDeclarationEnd()) return false;
+
+        declarations.push(declaration);
+        return true;
+    }
+
+    // Skip everything up to the start of the internal subset.
+    while (index < value.length && value[index] !== "[") {
+        if (isQuote(value[index])) {
+            index = value.indexOf(value[index], index + 1);
+            if (index < 0) return declarations;
+        }
+        index++;
+    }
+    index++;
+
+    while (index < value.length && value[index] !== "]") {
+        if (skipWhitespace()) continue;
+
+        const start = index;
+
+        if (value.startsWith("<!--", index)) {
+            skipPast("-->");
+        } else if (value.startsWith("<?", index)) {
+            skipPast("?>");
+        } else if (value[index] === "%") {
+            // Parameter entity references are ignored.
+            skipPast(";");
+        } else if (readKeyword("<!NOTATION")) {
+            // Notations aren't reported.
+            skipDeclaration();
+        } else {
+            const isValid = readKeyword("<!ELEMENT")
+                ? readElement()
+                : readKeyword("<!ATTLIST")
+                  ? readAttributeList()
+                  : readKeyword("<!ENTITY") && readEntity();
+
+            if (!isValid) {
+                onError?.(ParseErrorCode.InvalidMarkupDeclaration, start);
+                index = start + 1;
+                skipDeclaration();
+            }
+        }
+    }
+
+    return declarations;
+}
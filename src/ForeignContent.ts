@@ -0,0 +1,192 @@
+import { Namespace, type QualifiedName } from "./Namespaces.js";
+
+/** Maps lowercased names to their actual case. */
+function byLowerCase(names: string[]): ReadonlyMap<string, string> {
+    return new Map(names.map((name) => [name.toLowerCase(), name]));
+}
+
+/** @see https://html.spec.whatwg.org/multipage/parsing.html#adjust-svg-tag-names */
+const svgTagNames = byLowerCase([
+    "altGlyph",
+    "altGlyphDef",
+    "altGlyphItem",
+    "animateColor",
+    "animateMotion",
+    "animateTransform",
+    "clipPath",
+    "feBlend",
+    "feColorMatrix",
+    "feComponentTransfer",
+    "feComposite",
+    "feConvolveMatrix",
+    "feDiffuseLighting",
+    "feDisplacementMap",
+    "feDistantLight",
+    "feDropShadow",
+    "feFlood",
+    "feFuncA",
+    "feFuncB",
+    "feFuncG",
+    "feFuncR",
+    "feGaussianBlur",
+    "feImage",
+    "feMerge",
+    "feMergeNode",
+    "feMorphology",
+    "feOffset",
+    "fePointLight",
+    "feSpecularLighting",
+    "feSpotLight",
+    "feTile",
+    "feTurbulence",
+    "foreignObject",
+    "glyphRef",
+    "linearGradient",
+    "radialGradient",
+    "textPath",
+]);
+
+/** @see https://html.spec.whatwg.org/multipage/parsing.html#adjust-svg-attributes */
+const svgAttributeNames = byLowerCase([
+    "attributeName",
+    "attributeType",
+    "baseFrequency",
+    "baseProfile",
+    "calcMode",
+    "clipPathUnits",
+    "diffuseConstant",
+    "edgeMode",
+    "filterUnits",
+    "glyphRef",
+    "gradientTransform",
+    "gradientUnits",
+    "kernelMatrix",
+    "kernelUnitLength",
+    "keyPoints",
+    "keySplines",
+    "keyTimes",
+    "lengthAdjust",
+    "limitingConeAngle",
+    "markerHeight",
+    "markerUnits",
+    "markerWidth",
+    "maskContentUnits",
+    "maskUnits",
+    "numOctaves",
+    "pathLength",
+    "patternContentUnits",
+    "patternTransform",
+    "patternUnits",
+    "pointsAtX",
+    "pointsAtY",
+    "pointsAtZ",
+    "preserveAlpha",
+    "preserveAspectRatio",
+    "primitiveUnits",
+    "refX",
+    "refY",
+    "repeatCount",
+    "repeatDur",
+    "requiredExtensions",
+    "requiredFeatures",
+    "specularConstant",
+    "specularExponent",
+    "spreadMethod",
+    "startOffset",
+    "stdDeviation",
+    "stitchTiles",
+    "surfaceScale",
+    "systemLanguage",
+    "tableValues",
+    "targetX",
+    "targetY",
+    "textLength",
+    "viewBox",
+    "viewTarget",
+    "xChannelSelector",
+    "yChannelSelector",
+    "zoomAndPan",
+]);
+
+/** @see https://html.spec.whatwg.org/multipage/parsing.html#adjust-mathml-attributes */
+const mathMLAttributeNames = byLowerCase(["definitionURL"]);
+
+function xlink(localName: string): [string, QualifiedName] {
+    return [
+        `xlink:${localName}`,
+        { namespace: Namespace.XLink, prefix: "xlink", localName },
+    ];
+}
+
+/** @see https://html.spec.whatwg.org/multipage/parsing.html#adjust-foreign-attributes */
+const foreignAttributes = new Map<string, QualifiedName>([
+    xlink("actuate"),
+    xlink("arcrole"),
+    xlink("href"),
+    xlink("role"),
+    xlink("show"),
+    xlink("title"),
+    xlink("type"),
+    [
+        "xml:lang",
+        { namespace: Namespace.XML, prefix: "xml", localName: "lang" },
+    ],
+    [
+        "xml:space",
+        { namespace: Namespace.XML, prefix: "xml", localName: "space" },
+    ],
+    ["xmlns", { namespace: Namespace.XMLNS, prefix: null, localName: "xmlns" }],
+    [
+        "xmlns:xlink",
+        { namespace: Namespace.XMLNS, prefix: "xmlns", localName: "xlink" },
+    ],
+]);
+
+/**
+ * Restores the case of a lowercased element name.
+ *
+ * @param name The lowercased name of the element.
+ * @param namespace The namespace of the element.
+ */
+export function adjustTagName(
+    name: string,
+    namespace: Namespace | null,
+): string {
+    return namespace === Namespace.SVG ? svgTagNames.get(name) ?? name : name;
+}
+
+/**
+ * Restores the case of a lowercased attribute name.
+ *
+ * @param name The lowercased name of the attribute.
+ * @param namespace The namespace of the element the attribute belongs to.
+ */
+export function adjustAttributeName(
+    name: string,
+    namespace: Namespace | null,
+): string {
+    const names =
+        namespace === Namespace.SVG
+            ? svgAttributeNames
+            : namespace === Namespace.MathML
+              ? mathMLAttributeNames
+              : null;
+
+    return names?.get(name) ?? name;
+}
+
+/**
+ * Gets the namespace of an attribute like `xlink:href`, which are only
+ * namespaced in SVG and MathML.
+ *
+ * @param name The name of the attribute.
+ * @param namespace The namespace of the element the attribute belongs to.
+ */
+export function getForeignAttributeName(
+    name: string,
+    namespace: Namespace | null,
+): QualifiedName | undefined {
+    return namespace === Namespace.SVG || namespace === Namespace.MathML
+        ? foreignAttributes.get(name)
+        : undefined;
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from "vitest";
+import { Parser, DomHandler, tee } from "./index.js";
+import { getOuterHTML } from "domutils";
+
+describe("tee", () => {
+    it("should pass all events to all handlers", () => {
+        const handler = new DomHandler();
+        const onopentag = vi.fn();
+        const onreset = vi.fn();
+        const parser = new Parser(tee(handler, { onopentag, onreset }));
+
+        parser.parseComplete("<a href=b>c</a>");
+
+        expect(getOuterHTML(handler.root)).toBe('<a href="b">c</a>');
+        expect(onopentag).toHaveBeenCalledTimes(1);
+        expect(onopentag.mock.calls[0].slice(0, 3)).toEqual([
+            "a",
+            { href: "b" },
+            false,
+        ]);
+        expect(onreset).toHaveBeenCalledTimes(1);
+    });
+
+    it("should pass the parser to all handlers", () => {
+        const starts: number[] = [];
+        let parser: Parser | null = null;
+        const handler = tee(
+            {
+                onparserinit(p) {
+                    parser = p;
+                },
+            },
+            {
+                onclosetag() {
+                    starts.push(parser!.startIndex);
+                },
+            },
+        );
+
+        new Parser(handler).end("<a></a><b></b>");
+
+        expect(starts).toEqual([3, 10]);
+    });
+
+    it("should only pass selected events", () => {
+        const first = { ontext: vi.fn(), oncomment: vi.fn() };
+        const second = { ontext: vi.fn(), oncomment: vi.fn() };
+
+        new Parser(tee(first, { handler: second, events: ["oncomment"] })).end(
+            "a<!--b-->",
+        );
+
+        expect(first.ontext).toHaveBeenCalledWith("a");
+        expect(first.oncomment).toHaveBeenCalledWith("b");
+        expect(second.ontext).not.toHaveBeenCalled();
+        expect(second.oncomment).toHaveBeenCalledWith("b");
+    });
+
+    it("should only implement events of the handlers", () => {
+        const handler = tee(
+            { ontext: vi.fn() },
+            { handler: { onerror: vi.fn() }, events: ["ontext"] },
+        );
+
+        expect(Object.keys(handler)).toEqual(["ontext"]);
+    });
+});
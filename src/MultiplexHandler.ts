@@ -0,0 +1,83 @@
+import type { Handler } from "./Parser.js";
+
+/** The name of an event of a `Handler`, eg. `onopentag`. */
+export type HandlerEvent = keyof Handler;
+
+/** A handler that only receives some of the events passed to `tee`. */
+export interface FilteredHandler {
+    handler: Partial<Handler>;
+    /** The events that are passed to the handler. */
+    events: Iterable<HandlerEvent>;
+}
+
+/** All events of `Handler`. Listed as an object, so none can be missed. */
+const handlerEvents = Object.keys({
+    onparserinit: true,
+    onreset: true,
+    onend: true,
+    onerror: true,
+    onparseerror: true,
+    onclosetag: true,
+    onopentagname: true,
+    onignoredtag: true,
+    onattribute: true,
+    onopentag: true,
+    onstartprefixmapping: true,
+    onendprefixmapping: true,
+    ontext: true,
+    oncomment: true,
+    oncdatastart: true,
+    oncdataend: true,
+    oncommentend: true,
+    onprocessinginstruction: true,
+    onxmldeclaration: true,
+    ondoctype: true,
+    onelementdeclaration: true,
+    onattributedeclaration: true,
+    onentitydeclaration: true,
+} satisfies Record<HandlerEvent, true>) as HandlerEvent[];
+
+/**
+ * Creates a handler that passes all events to several handlers, in the order
+ * of the arguments. Handlers can read the location of events from the parser
+ * they receive in `onparserinit`.
+ *
+ * The returned handler only implements the events that at least one of the
+ * handlers implements, so that the parser skips work for unused events. In
+ * particular, errors are still thrown if none of the handlers implements
+ * `onerror`.
+ *
+ * @param handlers The handlers to pass events to. Wrap a handler in a
+ * `FilteredHandler` to only pass some events to it.
+ */
+export function tee(
+    ...handlers: (Partial<Handler> | FilteredHandler)[]
+): Partial<Handler> {
+    const filtered = handlers.map((handler) =>
+        "handler" in handler
+            ? { handler: handler.handler, events: new Set(handler.events) }
+            : { handler, events: null },
+    );
+    const multiplexed: Partial<Record<HandlerEvent, unknown>> = {};
+
+    for (const event of handlerEvents) {
+        const targets = filtered.filter(
+            ({ handler, events }) =>
+                typeof handler[event] === "function" &&
+                (events === null || events.has(event)),
+        );
+
+        if (targets.length === 0) continue;
+
+        multiplexed[event] = (...data: unknown[]) => {
+            for (const { handler } of targets) {
+                (handler[event] as (...data: unknown[]) => void).apply(
+                    handler,
+                    data,
+                );
+            }
+        };
+    }
+
+    return multiplexed as Partial<Handler>;
+}
@@ -0,0 +1,95 @@
+export enum Namespace {
+    HTML = "http://www.w3.org/1999/xhtml",
+    MathML = "http://www.w3.org/1998/Math/MathML",
+    SVG = "http://www.w3.org/2000/svg",
+    XLink = "http://www.w3.org/1999/xlink",
+    XML = "http://www.w3.org/XML/1998/namespace",
+    XMLNS = "http://www.w3.org/2000/xmlns/",
+}
+
+/** The name of an element or attribute, split into its namespace parts. */
+export interface QualifiedName {
+    /** The namespace URI, or `null` if the name is not in a namespace. */
+    namespace: string | null;
+    /** The prefix of the name, or `null` if it has none. */
+    prefix: string | null;
+    /** The name without its prefix. */
+    localName: string;
+}
+
+/** Maps prefixes to namespace URIs. The default namespace uses `null`. */
+export type NamespaceBindings = ReadonlyMap<string | null, string>;
+
+/** The prefixes that are bound in every document. */
+export const defaultNamespaceBindings: NamespaceBindings = new Map([
+    ["xml", Namespace.XML],
+    ["xmlns", Namespace.XMLNS],
+]);
+
+/**
+ * Checks if an attribute declares a namespace.
+ *
+ * @param name The name of the attribute.
+ * @returns The declared prefix, `null` for the default namespace, or
+ * `undefined` if the attribute is not a namespace declaration.
+ */
+export function getDeclaredPrefix(name: string): string | null | undefined {
+    if (name === "xmlns") return null;
+    return name.startsWith("xmlns:") ? name.slice(6) : undefined;
+}
+
+/**
+ * Checks if a namespace declaration is allowed by Namespaces in XML. The
+ * `xml` prefix can only be bound to its namespace, the `xmlns` prefix can't
+ * be declared, their namespaces can't be bound to other prefixes, and
+ * prefixes can't be undeclared.
+ *
+ * @see https://www.w3.org/TR/xml-names/#xmlReserved
+ * @param prefix The declared prefix, or `null` for the default namespace.
+ * @param uri The namespace URI.
+ */
+export function isAllowedDeclaration(
+    prefix: string | null,
+    uri: string,
+): boolean {
+    if (prefix === "xmlns" || uri === Namespace.XMLNS) return false;
+    if (prefix === "xml" || uri === Namespace.XML) {
+        return prefix === "xml" && uri === Namespace.XML;
+    }
+    return prefix === null || uri !== "";
+}
+
+/**
+ * Resolves the prefix of a name.
+ *
+ * @param name The name of an element or attribute.
+ * @param bindings The namespaces in scope.
+ * @param isAttribute Unprefixed attributes don't use the default namespace.
+ * @returns The qualified name. Names with an unbound prefix have no namespace.
+ */
+export function resolveName(
+    name: string,
+    bindings: NamespaceBindings,
+    isAttribute: boolean,
+): QualifiedName {
+    const index = name.indexOf(":");
+
+    if (index < 0) {
+        // The `xmlns` attribute is in the XMLNS namespace, but has no prefix.
+        const namespace = isAttribute
+            ? name === "xmlns"
+                ? Namespace.XMLNS
+                : null
+            : bindings.get(null);
+
+        return { namespace: namespace ?? null, prefix: null, localName: name };
+    }
+
+    const prefix = name.slice(0, index);
+
+    return {
+        namespace: bindings.get(prefix) ?? null,
+        prefix,
+        localName: name.slice(index + 1),
+    };
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi } from "vitest";
 import { Parser, type ParserOptions } from "./Parser.js";
+import { ParseErrorCode, defaultTextElements } from "./Tokenizer.js";
 import * as helper from "./__fixtures__/testHelper.js";
 
 /**
@@ -115,6 +116,31 @@ describe("Events", () => {
 
     it("lt followed by whitespace", () => runTest("a < b"));
 
+    it("Implied document structure", () =>
+        runTest("<title>a</title>b<body class=c><meta x></html>", {
+            impliedStructure: true,
+        }));
+
+    it("Template content", () =>
+        runTest("<ul><li>a<template><li>b<li>c</div></template>d</ul>"));
+
+    it("Self-closing syntax", () => runTest("<div/><br/><svg><path/></svg>"));
+
+    it("Self-closing syntax with tree construction", () =>
+        runTest("<div/><br/><svg><path/></svg>", { treeConstruction: true }));
+
+    it("Ignored tags", () =>
+        runTest("<body><div></span></img><body>a</div></body><p class=b", {
+            impliedStructure: true,
+        }));
+
+    it("Unterminated end tag", () => runTest("<div>a</div"));
+
+    it("SVG and MathML case adjustment", () =>
+        runTest(
+            '<svg viewbox="0 0 1 1" xmlns:xlink="http://www.w3.org/1999/xlink"><lineargradient><use xlink:href="#a" /></lineargradient><foreignobject><p viewbox=b></p></foreignobject></svg><math definitionurl=c><clippath/></math>',
+        ));
+
     it("double attribute", () => runTest("<h1 class=test class=boo></h1>"));
 
     it("numeric entities", () =>
@@ -199,6 +225,57 @@ describe("Events", () => {
             "<!DOCTYPE html> <html> <title>The Title</title> <body class='foo'>Hello world <p></p></body> <!-- the comment --> </html> ",
         ));
 
+    it("Doctype with identifiers", () =>
+        runTest(
+            '<!DOCTYPE HTML PUBLIC "-//W3C//DTD HTML 4.01//EN" "http://www.w3.org/TR/html4/strict.dtd">',
+        ));
+
+    it("Raw source", () =>
+        runTest(
+            "a&amp;b<x y='&lt;q&#60' z=&amp disabled>&NotEqualTilde;<![CDATA[c]]>",
+            { rawSource: true, recognizeCDATA: true, syntaxDetails: true },
+        ));
+
+    it("Raw source of attributes in tree construction", () =>
+        runTest("<p title=&quot;>x&amp;", {
+            rawSource: true,
+            treeConstruction: true,
+            syntaxDetails: true,
+        }));
+
+    it("Syntax details", () =>
+        runTest(`<a href = "/x" B='1' b=2 download><svg><A xlink:Href=#y>`, {
+            syntaxDetails: true,
+        }));
+
+    it("XML namespaces", () =>
+        runTest(
+            `<feed xmlns="urn:atom" xmlns:dc="urn:dc"><dc:creator dc:id="1" xml:lang="en"/><entry xmlns:dc="urn:other" xmlns=""><dc:x/><y></entry><bad:z>`,
+            { xmlMode: true, xmlNamespaces: true },
+        ));
+
+    it("DTD internal subset", () =>
+        runTest(
+            `<!DOCTYPE doc SYSTEM "doc>.dtd" [
+<!-- Comments can contain ] and quotes ' -->
+<!ELEMENT doc (#PCDATA|b)*>
+<!ATTLIST doc kind (x|y) "x" id ID #REQUIRED>
+<!ENTITY company "Acme &amp; Co&#46;">
+<!ENTITY legal "&company; Ltd">
+<!ENTITY % param "p">
+<!ENTITY logo SYSTEM "logo.png" NDATA png>
+<!NOTATION png SYSTEM "image/png">
+<!ENTITY broken>
+]><doc title="&legal;">&legal;&unknown;</doc>`,
+            { xmlMode: true },
+        ));
+
+    it("XML declaration and pseudo-attributes", () =>
+        runTest(
+            `<?xml version="1.0" encoding='ISO-8859-1' standalone="no"?><?xml-stylesheet href="feed.xsl?a=1&amp;b=2" type="text/xsl"?><?php echo 1 ?><rss/>`,
+            { xmlMode: true },
+        ));
+
     it("Self-closing indices (#941)", () =>
         runTest("<xml><a/><b/></xml>", { xmlMode: true }));
 
@@ -209,6 +286,107 @@ describe("Events", () => {
             '<Page\n    title="Hello world"\n    actionBarVisible="false"/>',
             { xmlMode: true },
         ));
+
+    describe("Tree construction", () => {
+        const treeConstruction = { treeConstruction: true };
+
+        it("implied document structure", () =>
+            runTest(
+                "<!DOCTYPE html><title>Title</title><p>a<p>b",
+                treeConstruction,
+            ));
+
+        it("misnested formatting elements (adoption agency)", () =>
+            runTest("<b><p>x</b>y</p>", treeConstruction));
+
+        it("active formatting element reconstruction", () =>
+            runTest("<p>1<b>2<i>3</p>4</i>5</b>6", treeConstruction));
+
+        it("foster parenting", () =>
+            runTest(
+                "<table><tr><td>a</td></tr>stray<div>d</div></table>",
+                treeConstruction,
+            ));
+
+        it("foreign content", () =>
+            runTest(
+                "<svg><circle/><foreignObject><p>hi</b></foreignObject></svg>",
+                treeConstruction,
+            ));
+
+        it("noscript with scripting enabled", () =>
+            runTest("<noscript><p>a</p></noscript><p><noscript><b>", {
+                ...treeConstruction,
+                textElements: new Map([
+                    ...defaultTextElements,
+                    ["noscript", "rawtext"],
+                ]),
+            }));
+
+        it("comments after the document", () =>
+            runTest("<html></html><!--after-->", treeConstruction));
+    });
+
+    describe("Parse errors", () => {
+        it("attributes", () => runTest("<a b=1 b=2 =c d\"e f=g`h i='j'k l=>"));
+
+        it("end tags", () => runTest("<p>a</p foo></><p>b</p/>"));
+
+        it("null characters", () => {
+            const onparseerror = vi.fn();
+            const parser = new Parser(
+                { onparseerror },
+                { recognizeCDATA: true },
+            );
+
+            parser.end("a\0b<![CDATA[\0]]><!--\0-->");
+
+            // `NUL` characters are allowed in CDATA sections.
+            expect(onparseerror.mock.calls).toEqual([
+                [ParseErrorCode.UnexpectedNullCharacter, 1, 1],
+                [ParseErrorCode.UnexpectedNullCharacter, 20, 20],
+            ]);
+        });
+
+        it("null characters in later chunks", () => {
+            const onparseerror = vi.fn();
+            const parser = new Parser({ onparseerror });
+
+            parser.write("a<!--b");
+            parser.write("\0-->c");
+            parser.end("\0");
+
+            expect(onparseerror.mock.calls).toEqual([
+                [ParseErrorCode.UnexpectedNullCharacter, 6, 6],
+                [ParseErrorCode.UnexpectedNullCharacter, 11, 11],
+            ]);
+        });
+
+        it("character references", () =>
+            runTest("&#0;&#x110000;&#xd800;&#xfffe;&#x80;&#;&amp"));
+
+        it("comments", () => runTest("<!--><!foo><? bar>< baz"));
+
+        it("end of input in a tag", () => runTest("<div class='a"));
+
+        it("solidus in a tag", () => runTest("<a/ b>"));
+
+        it("end of input in a comment", () => runTest("<!-- foo"));
+
+        it("self-closing tags", () =>
+            runTest("<br/><p/><svg><g/></svg>", { syntaxDetails: true }));
+
+        it("self-closing tags in tree construction", () =>
+            runTest("<br/><p/><svg><g/></svg>", {
+                treeConstruction: true,
+                syntaxDetails: true,
+            }));
+
+        it("doctypes", () =>
+            runTest(
+                '<!doctype><!DOCTYPE html PUBLIC"foo"x><!DOCTYPE html SYSTEM \'bar>',
+            ));
+    });
 });
 
 describe("Helper", () => {
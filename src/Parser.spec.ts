@@ -1,6 +1,69 @@
 import { describe, it, expect, vi } from "vitest";
-import { Parser, Tokenizer } from "./index.js";
-import type { Handler } from "./Parser.js";
+import {
+    Parser,
+    ResourceLimitError,
+    defaultSchema,
+    Tokenizer,
+    WellFormednessError,
+} from "./index.js";
+import type { Attribute, Handler, ParserOptions } from "./Parser.js";
+import type { QualifiedName } from "./Namespaces.js";
+
+function getDocumentMode(html: string, options?: ParserOptions) {
+    const p = new Parser(null, options);
+    p.end(html);
+    return p.documentMode;
+}
+
+function getWellFormednessErrors(xml: string) {
+    const errors: [string, number, number][] = [];
+    new Parser(
+        {
+            onerror(error) {
+                if (error instanceof WellFormednessError) {
+                    errors.push([error.code, error.startIndex, error.endIndex]);
+                }
+            },
+        },
+        { xmlMode: true, xmlNamespaces: true, strict: true },
+    ).end(xml);
+    return errors;
+}
+
+function getExceededLimits(chunks: string[], options: ParserOptions) {
+    const errors: [string, number][] = [];
+    const parser = new Parser(
+        {
+            onerror(error) {
+                if (error instanceof ResourceLimitError) {
+                    errors.push([error.limit, error.startIndex]);
+                }
+            },
+        },
+        options,
+    );
+    for (const chunk of chunks) parser.write(chunk);
+    parser.end();
+    return errors;
+}
+
+function getTextAndErrors(chunks: string[], options: ParserOptions) {
+    const events: unknown[] = [];
+    const parser = new Parser(
+        {
+            ontext(data) {
+                events.push(data);
+            },
+            onerror(error) {
+                events.push(error);
+            },
+        },
+        options,
+    );
+    for (const chunk of chunks) parser.write(chunk);
+    parser.end();
+    return events;
+}
 
 describe("API", () => {
     it("should work without callbacks", () => {
@@ -140,6 +203,117 @@ describe("API", () => {
         expect(called).toBe(true);
     });
 
+    it("should track positions across chunks", () => {
+        const positions: unknown[] = [];
+        const p = new Parser(
+            {
+                onopentag() {
+                    positions.push([p.startPosition, p.endPosition]);
+                },
+            },
+            { sourceCodeLocationInfo: true },
+        );
+
+        p.write("<a>\r");
+        p.write("\n<b\n>\r<c>");
+        p.end();
+
+        expect(positions).toEqual([
+            [
+                { line: 1, column: 1, offset: 0 },
+                { line: 1, column: 3, offset: 2 },
+            ],
+            [
+                { line: 2, column: 1, offset: 5 },
+                { line: 3, column: 1, offset: 8 },
+            ],
+            [
+                { line: 4, column: 1, offset: 10 },
+                { line: 4, column: 3, offset: 12 },
+            ],
+        ]);
+    });
+
+    it("should not track positions by default", () => {
+        const p = new Parser();
+        p.end("<a>");
+
+        expect(p.startPosition).toBeNull();
+        expect(p.endPosition).toBeNull();
+    });
+
+    it("should determine the document mode", () => {
+        expect(getDocumentMode("<!DOCTYPE html><p>")).toBe("no-quirks");
+        expect(getDocumentMode("\n<!doctype HTML>")).toBe("no-quirks");
+        expect(getDocumentMode("<p>")).toBe("quirks");
+        expect(getDocumentMode("text<!DOCTYPE html>")).toBe("quirks");
+        expect(getDocumentMode("<!DOCTYPE foo>")).toBe("quirks");
+        expect(
+            getDocumentMode(
+                '<!DOCTYPE html PUBLIC "-//W3C//DTD HTML 3.2 Final//EN">',
+            ),
+        ).toBe("quirks");
+        expect(
+            getDocumentMode(
+                '<!DOCTYPE html PUBLIC "-//W3C//DTD HTML 4.01 Transitional//EN">',
+            ),
+        ).toBe("quirks");
+        expect(
+            getDocumentMode(
+                '<!DOCTYPE html PUBLIC "-//W3C//DTD HTML 4.01 Transitional//EN" "http://www.w3.org/TR/html4/loose.dtd">',
+            ),
+        ).toBe("limited-quirks");
+        expect(
+            getDocumentMode(
+                '<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN">',
+            ),
+        ).toBe("limited-quirks");
+        expect(getDocumentMode("<p>", { xmlMode: true })).toBe("no-quirks");
+        expect(
+            getDocumentMode("<!DOCTYPE html>", { treeConstruction: true }),
+        ).toBe("no-quirks");
+        expect(getDocumentMode("<p>", { treeConstruction: true })).toBe(
+            "quirks",
+        );
+    });
+
+    it("should construct deeply nested trees", () => {
+        const depth = 20_000;
+        let open = 0;
+        let maxOpen = 0;
+        new Parser(
+            {
+                onopentag() {
+                    maxOpen = Math.max(maxOpen, ++open);
+                },
+                onclosetag() {
+                    open--;
+                },
+            },
+            { treeConstruction: true },
+        ).end(`${"<span>".repeat(depth)}a${"</span>".repeat(depth)}`);
+
+        // The spans are nested in `html` and `body`.
+        expect(maxOpen).toBe(depth + 2);
+        expect(open).toBe(0);
+    });
+
+    it("should reuse the qualified names of elements", () => {
+        const onopentag = vi.fn();
+        new Parser({ onopentag }).end("<p>a<p>b<svg><p>");
+        const [first, second, svg] = onopentag.mock.calls.map(
+            (call) => call[4] as QualifiedName,
+        );
+
+        expect(first).toEqual({
+            namespace: "http://www.w3.org/1999/xhtml",
+            prefix: null,
+            localName: "p",
+        });
+        expect(second).toBe(first);
+        expect(svg.namespace).toBe("http://www.w3.org/2000/svg");
+    });
+
     it("should parse <__proto__> (#387)", () => {
         const p = new Parser(null);
 
@@ -162,3 +336,529 @@ describe("API", () => {
         p.done();
     });
 });
+
+describe("xmlNamespaces", () => {
+    it("should ignore declarations of reserved prefixes", () => {
+        const onstartprefixmapping = vi.fn();
+        const onopentag = vi.fn();
+        new Parser(
+            { onstartprefixmapping, onopentag },
+            { xmlMode: true, xmlNamespaces: true },
+        ).end(
+            '<a xmlns:p="urn:p"><b xmlns:xml="urn:bad" xmlns:xmlns="urn:x" xmlns:p="" xml:lang="en" p:c="d"/></a>',
+        );
+
+        expect(onstartprefixmapping.mock.calls).toEqual([["p", "urn:p"]]);
+
+        const attributes = onopentag.mock.calls[1][3] as Attribute[];
+        expect(
+            attributes.map(({ name, namespace }) => [name, namespace]),
+        ).toEqual([
+            ["xmlns:xml", "http://www.w3.org/2000/xmlns/"],
+            ["xmlns:xmlns", "http://www.w3.org/2000/xmlns/"],
+            ["xmlns:p", "http://www.w3.org/2000/xmlns/"],
+            ["xml:lang", "http://www.w3.org/XML/1998/namespace"],
+            ["p:c", "urn:p"],
+        ]);
+    });
+});
+
+describe("strict", () => {
+    it("should accept well-formed documents", () => {
+        expect(
+            getWellFormednessErrors(
+                '<?xml version="1.0"?>\n<a:root xmlns:a="urn:a" b="&amp;"><![CDATA[<]]><c/></a:root>\n',
+            ),
+        ).toEqual([]);
+    });
+
+    it("should report tags that don't match", () => {
+        expect(getWellFormednessErrors("<a><b></a>")).toEqual([
+            ["mismatched-end-tag", 6, 8],
+        ]);
+        expect(getWellFormednessErrors("<a></b>")).toEqual([
+            ["mismatched-end-tag", 3, 5],
+            ["unclosed-element", 7, 7],
+        ]);
+    });
+
+    it("should report attributes", () => {
+        expect(getWellFormednessErrors('<a b=c d e="" e=""/>')).toEqual([
+            ["unquoted-attribute-value", 5, 5],
+            ["missing-attribute-value", 7, 7],
+            ["duplicate-attribute", 14, 14],
+        ]);
+    });
+
+    it("should report content outside of the root element", () => {
+        expect(getWellFormednessErrors("x<a/><b/>")).toEqual([
+            ["content-outside-root-element", 0, 0],
+            ["multiple-root-elements", 5, 6],
+        ]);
+        expect(getWellFormednessErrors("<!-- a -->")).toEqual([
+            ["missing-root-element", 10, 10],
+        ]);
+    });
+
+    it("should report undefined entities", () => {
+        expect(getWellFormednessErrors("<a>&nbsp; & &#0;</a>")).toEqual([
+            ["unknown-named-character-reference", 3, 8],
+            ["unknown-named-character-reference", 10, 10],
+            ["null-character-reference", 12, 15],
+        ]);
+    });
+
+    it("should report invalid names and unbound prefixes", () => {
+        expect(getWellFormednessErrors('<1a b:c="x"></1a>')).toEqual([
+            ["invalid-name", 1, 2],
+            ["unbound-namespace-prefix", 4, 6],
+            ["invalid-name", 14, 15],
+        ]);
+    });
+
+    it("should report declarations of reserved prefixes and namespaces", () => {
+        expect(
+            getWellFormednessErrors(
+                '<a xmlns:xml="urn:bad" xmlns:xmlns="urn:x" xmlns:p="" xmlns:x="http://www.w3.org/2000/xmlns/"><b xmlns:xml="http://www.w3.org/XML/1998/namespace" xmlns=""/></a>',
+            ),
+        ).toEqual([
+            ["invalid-namespace-declaration", 3, 11],
+            ["invalid-namespace-declaration", 23, 33],
+            ["invalid-namespace-declaration", 43, 49],
+            ["invalid-namespace-declaration", 54, 60],
+        ]);
+    });
+
+    it("should throw without an error handler", () => {
+        const parser = new Parser(
+            { onopentag: vi.fn() },
+            { xmlMode: true, strict: true, sourceCodeLocationInfo: true },
+        );
+
+        expect(() => parser.end("<a>\n</b>")).toThrow(
+            "mismatched-end-tag at line 2, column 1",
+        );
+    });
+
+    it("should only be used in XML mode", () => {
+        const onerror = vi.fn();
+        new Parser({ onerror }, { strict: true }).end("<a></b><c d=e>");
+
+        expect(onerror).not.toHaveBeenCalled();
+    });
+});
+
+describe("entity declarations", () => {
+    const laughs = Array.from(
+        { length: 9 },
+        (_, index) =>
+            `<!ENTITY lol${index + 1} "${`&lol${index};`.repeat(10)}">`,
+    ).join("");
+
+    it("should limit the expansion of entities", () => {
+        const input = `<!DOCTYPE a [<!ENTITY lol0 "lol">${laughs}]><a>&lol9;</a>`;
+        const start = input.indexOf("&lol9;");
+        const locations: [number, number][] = [];
+        let parser: Parser | null = null;
+        const onparseerror = vi.fn(() =>
+            locations.push([parser!.startIndex, parser!.endIndex]),
+        );
+        const ontext = vi.fn();
+        new Parser(
+            {
+                onparserinit(init) {
+                    parser = init;
+                },
+                onparseerror,
+                ontext,
+            },
+            { xmlMode: true, maxEntityExpansionLength: 10_000 },
+        ).end(input);
+
+        expect(onparseerror).toHaveBeenCalledWith(
+            "entity-expansion-limit-exceeded",
+            start,
+            start + 5,
+        );
+        expect(locations).toEqual([[start, start + 5]]);
+        expect(ontext).toHaveBeenCalledTimes(1);
+        expect(ontext).toHaveBeenCalledWith("&lol9;");
+    });
+
+    it("should emit the replacement text of an entity at once", () => {
+        const ontext = vi.fn();
+        new Parser({ ontext }, { xmlMode: true }).end(
+            '<!DOCTYPE a [<!ENTITY a "b&#99;d">]><a>&a;</a>',
+        );
+
+        expect(ontext).toHaveBeenCalledTimes(1);
+        expect(ontext).toHaveBeenCalledWith("bcd");
+    });
+
+    it("should limit the depth of entities", () => {
+        const onparseerror = vi.fn();
+        new Parser(
+            { onparseerror },
+            { xmlMode: true, maxEntityExpansionDepth: 1 },
+        ).end('<!DOCTYPE a [<!ENTITY a "&b;"><!ENTITY b "b">]><a>&a;</a>');
+
+        expect(onparseerror).toHaveBeenCalledWith(
+            "entity-expansion-limit-exceeded",
+            50,
+            52,
+        );
+    });
+
+    it("should report recursive entities", () => {
+        const onparseerror = vi.fn();
+        new Parser({ onparseerror }, { xmlMode: true }).end(
+            '<!DOCTYPE a [<!ENTITY a "&b;"><!ENTITY b "&a;">]><a>&a;</a>',
+        );
+
+        expect(onparseerror).toHaveBeenCalledWith(
+            "recursive-entity-reference",
+            52,
+            54,
+        );
+    });
+
+    it("should not declare entities in HTML mode", () => {
+        const ontext = vi.fn();
+        new Parser({ ontext }).end('<!DOCTYPE a [<!ENTITY a "b">]><a>&a;</a>');
+
+        expect(ontext).toHaveBeenLastCalledWith("&a;");
+    });
+});
+
+describe("resource limits", () => {
+    it("should limit the nesting depth", () => {
+        expect(getExceededLimits(["<a><b><br><c>"], { maxDepth: 2 })).toEqual([
+            ["maxDepth", 10],
+        ]);
+        expect(
+            getExceededLimits(["<a><b><c>"], {
+                maxDepth: 4,
+                treeConstruction: true,
+            }),
+        ).toEqual([["maxDepth", 6]]);
+    });
+
+    it("should count implied elements towards the nesting depth", () => {
+        const onerror = vi.fn();
+        const onopentagname = vi.fn();
+        new Parser(
+            { onerror, onopentagname },
+            { maxDepth: 2, impliedStructure: true },
+        ).end("<p>a");
+
+        expect(onerror).toHaveBeenCalledWith(
+            new ResourceLimitError("maxDepth", 2, 0),
+        );
+        expect(onopentagname.mock.calls).toEqual([
+            ["html"],
+            ["head"],
+            ["body"],
+        ]);
+    });
+
+    it("should limit the number of attributes", () => {
+        expect(
+            getExceededLimits(["<a b c><d e f g>"], { maxAttributes: 2 }),
+        ).toEqual([["maxAttributes", 14]]);
+    });
+
+    it("should limit the length of attribute values", () => {
+        expect(
+            getExceededLimits(["<a b='xxx", "x&amp;x'>"], {
+                maxAttributeValueLength: 5,
+            }),
+        ).toEqual([["maxAttributeValueLength", 15]]);
+    });
+
+    it("should not emit events after a limit was exceeded", () => {
+        const onerror = vi.fn();
+        const onattribute = vi.fn();
+        const onopentag = vi.fn();
+        new Parser(
+            { onerror, onattribute, onopentag },
+            { maxAttributeValueLength: 3 },
+        ).end("<a id=1 href='aaaaaa'>");
+
+        expect(onerror).toHaveBeenCalledTimes(1);
+        expect(onattribute).toHaveBeenCalledTimes(1);
+        expect(onattribute).toHaveBeenCalledWith("id", "1", null);
+        expect(onopentag).not.toHaveBeenCalled();
+    });
+
+    it("should limit the length of tag names", () => {
+        expect(
+            getExceededLimits(["<abc></abcd>"], { maxTagNameLength: 3 }),
+        ).toEqual([["maxTagNameLength", 7]]);
+    });
+
+    it("should limit the length of text nodes", () => {
+        expect(
+            getExceededLimits(["ab<a>cd", "e&amp;", "f</a>"], {
+                maxTextLength: 4,
+            }),
+        ).toEqual([["maxTextLength", 13]]);
+    });
+
+    it("should limit text independently of chunks", () => {
+        const html = "<p>ab&amp;cdef</p>";
+        const options = { maxTextLength: 4 };
+
+        const whole = getTextAndErrors([html], options);
+        expect(whole).toEqual([
+            "ab",
+            "&",
+            "c",
+            new ResourceLimitError("maxTextLength", 4, 11),
+        ]);
+
+        // The error is part of the joined string.
+        expect(getTextAndErrors([...html], options).join("")).toBe(
+            whole.join(""),
+        );
+        expect(
+            getTextAndErrors(["<p>ab&a", "mp;cd", "ef"], options).join(""),
+        ).toBe(whole.join(""));
+    });
+
+    it("should limit the input length and ignore further input", () => {
+        const onerror = vi.fn();
+        const onopentagname = vi.fn();
+        const onend = vi.fn();
+        const parser = new Parser(
+            { onerror, onopentagname, onend },
+            { maxInputLength: 4 },
+        );
+
+        parser.write("<a>");
+        parser.write("<b>");
+        parser.write("<c>");
+        parser.end();
+
+        expect(onerror).toHaveBeenCalledTimes(1);
+        expect(onerror).toHaveBeenCalledWith(
+            new ResourceLimitError("maxInputLength", 4, 3),
+        );
+        expect(onopentagname).toHaveBeenCalledTimes(1);
+        expect(onend).not.toHaveBeenCalled();
+
+        parser.reset();
+        parser.end("<d>");
+        expect(onopentagname).toHaveBeenLastCalledWith("d");
+        expect(onend).toHaveBeenCalledTimes(1);
+    });
+
+    it("should throw if the handler doesn't handle errors", () => {
+        expect(() => new Parser({}, { maxDepth: 0 }).end("<a>")).toThrow(
+            "maxDepth of 0 exceeded at index 0",
+        );
+    });
+});
+
+describe("schema", () => {
+    const schema = {
+        ...defaultSchema,
+        voidElements: new Set([...defaultSchema.voidElements, "mj-image"]),
+        openImpliesClose: new Map([
+            ...defaultSchema.openImpliesClose,
+            ["mj-column", new Set(["mj-column"])],
+        ]),
+        textElements: new Map([
+            ...defaultSchema.textElements,
+            ["mj-raw", "rawtext" as const],
+        ]),
+        foreignContextElements: new Set(["mj-svg"]),
+    };
+
+    it("should use void elements and implied end tags of the schema", () => {
+        const onclosetag = vi.fn();
+        new Parser({ onclosetag }, { schema }).end(
+            "<mj-column><mj-image><mj-column></mj-column>",
+        );
+
+        expect(onclosetag.mock.calls).toEqual([
+            ["mj-image", true],
+            ["mj-column", true],
+            ["mj-column", false],
+        ]);
+    });
+
+    it("should use text elements of the schema", () => {
+        const ontext = vi.fn();
+        new Parser({ ontext }, { schema }).end("<mj-raw><b>&amp;</mj-raw>");
+
+        expect(ontext).toHaveBeenCalledWith("<b>&amp;");
+    });
+
+    it("should use foreign context elements of the schema", () => {
+        const onclosetag = vi.fn();
+        new Parser({ onclosetag }, { schema }).end(
+            "<mj-svg><path/></mj-svg><svg><path/>",
+        );
+
+        expect(onclosetag.mock.calls).toEqual([
+            ["path", true],
+            ["mj-svg", false],
+            // `<svg>` isn't foreign anymore, so `<path>` stays open.
+            ["path", true],
+            ["svg", true],
+        ]);
+    });
+});
+
+describe("duplicateAttributes", () => {
+    const html = '<a href="safe" href="javascript:alert(1)" href=c id=d>';
+
+    function getAttribs(options: ParserOptions) {
+        const onopentag = vi.fn();
+        new Parser({ onopentag }, options).end(html);
+        return onopentag.mock.calls[0][1] as Record<string, string>;
+    }
+
+    it("should keep the first value by default", () => {
+        expect(getAttribs({})).toEqual({ href: "safe", id: "d" });
+    });
+
+    it("should keep the last value", () => {
+        expect(getAttribs({ duplicateAttributes: "last" })).toEqual({
+            href: "c",
+            id: "d",
+        });
+    });
+
+    it("should pass all values of repeated attributes", () => {
+        const onopentag = vi.fn();
+        new Parser({ onopentag }, { duplicateAttributes: "all" }).end(html);
+        const [[, attribs, , attributes]] = onopentag.mock.calls as [
+            [string, Record<string, string>, boolean, Attribute[]],
+        ];
+
+        expect(attribs).toEqual({ href: "safe", id: "d" });
+        expect(attributes.map(({ name, value }) => [name, value])).toEqual([
+            ["href", "safe"],
+            ["href", "javascript:alert(1)"],
+            ["href", "c"],
+            ["id", "d"],
+        ]);
+    });
+
+    it("should report repeated attributes", () => {
+        const onerror = vi.fn();
+        const onopentag = vi.fn();
+        new Parser(
+            { onerror, onopentag },
+            { duplicateAttributes: "error" },
+        ).end(html);
+
+        expect(onerror).toHaveBeenCalledTimes(2);
+        expect(onerror.mock.calls[0][0]).toBeInstanceOf(WellFormednessError);
+        expect(onerror.mock.calls[0][0]).toMatchObject({
+            code: "duplicate-attribute",
+            startIndex: 15,
+            endIndex: 18,
+        });
+        expect(onopentag.mock.calls[0][1]).toEqual({ href: "safe", id: "d" });
+    });
+
+    it("should throw without an error handler", () => {
+        expect(() =>
+            new Parser({}, { duplicateAttributes: "error" }).end(html),
+        ).toThrow(WellFormednessError);
+    });
+});
+
+describe("ignored tags", () => {
+    it("should not close unterminated start tags", () => {
+        const onignoredtag = vi.fn();
+        const onclosetag = vi.fn();
+        new Parser({ onignoredtag, onclosetag }).end("<div><a href='b");
+
+        expect(onignoredtag).toHaveBeenCalledWith("a", "unterminated", false);
+        expect(onclosetag.mock.calls).toEqual([["div", true]]);
+    });
+
+    it("should not emit text for tags cut off after a solidus", () => {
+        const onignoredtag = vi.fn();
+        const ontext = vi.fn();
+        new Parser({ onignoredtag, ontext }).end("<a/");
+
+        expect(onignoredtag).toHaveBeenCalledWith("a", "unterminated", false);
+        expect(ontext).not.toHaveBeenCalled();
+    });
+
+    it("should not report tags dropped by the tree builder", () => {
+        const onignoredtag = vi.fn();
+        new Parser({ onignoredtag }, { treeConstruction: true }).end(
+            "</span><p><body><a href='b",
+        );
+
+        expect(onignoredtag).not.toHaveBeenCalled();
+    });
+});
+
+describe("processing instructions", () => {
+    it("should keep pseudo-attributes named like object properties", () => {
+        const onprocessinginstruction = vi.fn();
+        new Parser({ onprocessinginstruction }, { xmlMode: true }).end(
+            '<?xml-stylesheet __proto__="a" constructor="b" __proto__="c"?>',
+        );
+
+        const [call] = onprocessinginstruction.mock.calls as [
+            [string, string, Record<string, string>],
+        ];
+        expect(Object.entries(call[2])).toEqual([
+            ["__proto__", "a"],
+            ["constructor", "b"],
+        ]);
+    });
+});
+
+describe("parse errors", () => {
+    it("should set the location to the range of errors", () => {
+        const errors: unknown[] = [];
+        const parser: Parser = new Parser({
+            onparseerror(code, start, endIndex) {
+                errors.push([
+                    code,
+                    start,
+                    endIndex,
+                    parser.startIndex,
+                    parser.endIndex,
+                ]);
+            },
+        });
+        parser.end("<!foo><div/><!DOCTYPE html x>");
+
+        expect(errors).toEqual([
+            ["incorrectly-opened-comment", 0, 5, 0, 5],
+            [
+                "non-void-html-element-start-tag-with-trailing-solidus",
+                10,
+                11,
+                10,
+                11,
+            ],
+            ["invalid-character-sequence-after-doctype-name", 27, 27, 27, 27],
+        ]);
+    });
+
+    it("should only report a missing end tag name for `</>`", () => {
+        const errors: unknown[] = [];
+        const parser = new Parser({
+            onparseerror(code, start, endIndex) {
+                errors.push([code, start, endIndex]);
+            },
+        });
+        parser.end("</><a></ >b</ a>");
+
+        expect(errors).toEqual([
+            ["missing-end-tag-name", 0, 2],
+            ["invalid-first-character-of-tag-name", 8, 8],
+            ["invalid-first-character-of-tag-name", 13, 13],
+        ]);
+    });
+});
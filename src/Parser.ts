@@ -1,105 +1,55 @@
-import Tokenizer, { type Callbacks, QuoteType } from "./Tokenizer.js";
+import Tokenizer, {
+    type Callbacks,
+    QuoteType,
+    ParseErrorCode,
+    type SourcePosition,
+    type TextElementKind,
+} from "./Tokenizer.js";
 import { fromCodePoint } from "entities/dist/decode.js";
-
-const formTags = new Set([
-    "input",
-    "option",
-    "optgroup",
-    "select",
-    "button",
-    "datalist",
-    "textarea",
-]);
-const pTag = new Set(["p"]);
-const tableSectionTags = new Set(["thead", "tbody"]);
-const ddtTags = new Set(["dd", "dt"]);
-const rtpTags = new Set(["rt", "rp"]);
-
-const openImpliesClose = new Map<string, Set<string>>([
-    ["tr", new Set(["tr", "th", "td"])],
-    ["th", new Set(["th"])],
-    ["td", new Set(["thead", "th", "td"])],
-    ["body", new Set(["head", "link", "script"])],
-    ["li", new Set(["li"])],
-    ["p", pTag],
-    ["h1", pTag],
-    ["h2", pTag],
-    ["h3", pTag],
-    ["h4", pTag],
-    ["h5", pTag],
-    ["h6", pTag],
-    ["select", formTags],
-    ["input", formTags],
-    ["output", formTags],
-    ["button", formTags],
-    ["datalist", formTags],
-    ["textarea", formTags],
-    ["option", new Set(["option"])],
-    ["optgroup", new Set(["optgroup", "option"])],
-    ["dd", ddtTags],
-    ["dt", ddtTags],
-    ["address", pTag],
-    ["article", pTag],
-    ["aside", pTag],
-    ["blockquote", pTag],
-    ["details", pTag],
-    ["div", pTag],
-    ["dl", pTag],
-    ["fieldset", pTag],
-    ["figcaption", pTag],
-    ["figure", pTag],
-    ["footer", pTag],
-    ["form", pTag],
-    ["header", pTag],
-    ["hr", pTag],
-    ["main", pTag],
-    ["nav", pTag],
-    ["ol", pTag],
-    ["pre", pTag],
-    ["section", pTag],
-    ["table", pTag],
-    ["ul", pTag],
-    ["rt", rtpTags],
-    ["rp", rtpTags],
-    ["tbody", tableSectionTags],
-    ["tfoot", tableSectionTags],
-]);
-
-const voidElements = new Set([
-    "area",
-    "base",
-    "basefont",
-    "br",
-    "col",
-    "command",
-    "embed",
-    "frame",
-    "hr",
-    "img",
-    "input",
-    "isindex",
-    "keygen",
-    "link",
-    "meta",
-    "param",
-    "source",
-    "track",
-    "wbr",
-]);
-
-const foreignContextElements = new Set(["math", "svg"]);
-
-const htmlIntegrationElements = new Set([
-    "mi",
-    "mo",
-    "mn",
-    "ms",
-    "mtext",
-    "annotation-xml",
-    "foreignobject",
-    "desc",
-    "title",
-]);
+import {
+    TreeBuilder,
+    TokenType,
+    type Token,
+    type TreeElement,
+    type TreeNode,
+    type TreeProcessingInstruction,
+} from "./TreeBuilder.js";
+import {
+    parseDoctype,
+    getDocumentMode,
+    type Doctype,
+    type DocumentMode,
+} from "./Doctype.js";
+import { parseInternalSubset } from "./Dtd.js";
+import { parsePseudoAttributes } from "./PseudoAttributes.js";
+import {
+    Namespace,
+    defaultNamespaceBindings,
+    getDeclaredPrefix,
+    isAllowedDeclaration,
+    resolveName,
+    type NamespaceBindings,
+    type QualifiedName,
+} from "./Namespaces.js";
+import {
+    WellFormednessError,
+    WellFormednessErrorCode,
+    isXmlName,
+} from "./WellFormedness.js";
+import {
+    ResourceLimitError,
+    resourceLimits,
+    type ResourceLimit,
+} from "./ResourceLimits.js";
+import { defaultSchema, type Schema } from "./Schema.js";
+import {
+    adjustAttributeName,
+    adjustTagName,
+    getForeignAttributeName,
+} from "./ForeignContent.js";
+
+/** The implied elements that were opened with `impliedStructure`. */
+type StructurePhase = "initial" | "beforeHead" | "inHead" | "inBody";
 
 export interface ParserOptions {
     /**
@@ -149,12 +99,263 @@ export interface ParserOptions {
      */
     recognizeSelfClosing?: boolean;
 
+    /**
+     * The elements whose contents are consumed as text, and how they are
+     * consumed. Names are matched case-insensitively. Has no effect if
+     * `xmlMode` is enabled.
+     *
+     * To parse documents like browsers with scripting enabled, add
+     * `["noscript", "rawtext"]` to the default elements.
+     *
+     * Takes precedence over the `textElements` of the `schema`.
+     *
+     * @default schema.textElements
+     */
+    textElements?: ReadonlyMap<string, TextElementKind>;
+
+    /**
+     * The void elements, implied end tags, text elements and foreign content
+     * of HTML. Use this to teach the parser about custom elements, by
+     * extending `defaultSchema`. Has no effect if `xmlMode` is enabled.
+     *
+     * @default defaultSchema
+     */
+    schema?: Schema;
+
+    /**
+     * Parses the input as the content of an element with this name, like
+     * setting its `innerHTML`. The element itself isn't emitted, but it
+     * determines how its content is parsed: the content of text elements is
+     * text, `svg` and `math` start foreign content, and with
+     * `treeConstruction`, eg. a `tr` allows cells at the top level. Has no
+     * effect if `xmlMode` is enabled.
+     */
+    context?: string;
+
+    /**
+     * If set to `true`, the parser will arrange elements the way browsers do,
+     * following the WHATWG tree construction algorithm. This includes implied
+     * `<html>`, `<head>` and `<body>` elements, active formatting element
+     * reconstruction, the adoption agency algorithm and foster parenting.
+     *
+     * As the algorithm might move elements that were already encountered,
+     * events are only emitted once the document has been fully parsed.
+     * Has no effect if `xmlMode` is enabled.
+     *
+     * @default false
+     */
+    treeConstruction?: boolean;
+
+    /**
+     * If set to `true`, missing `<html>`, `<head>` and `<body>` elements are
+     * inserted, so that documents always have them. The `headElements` of the
+     * `schema` are placed in `<head>` until other content appears, which
+     * starts `<body>`. Inserted elements are marked as implied. Additional
+     * `<html>`, `<head>` and `<body>` start tags are ignored, as are their
+     * end tags; the elements are closed at the end of the document.
+     *
+     * Unlike `treeConstruction`, events are still emitted while the input is
+     * parsed. Has no effect if `xmlMode`, `treeConstruction` or `context` is
+     * set.
+     *
+     * @default false
+     */
+    impliedStructure?: boolean;
+
+    /**
+     * How to handle attributes that occur more than once on a tag, like
+     * `<a href="a" href="b">`. `onattribute` and the attribute list passed
+     * to `onopentag` always include all occurrences; this decides the
+     * values in `attribs`:
+     *
+     * - `first`: Keep the first value, like browsers do.
+     * - `last`: Keep the last value.
+     * - `all`: Keep the first value, and pass the attribute list with all
+     *   values to `onopentag`, even without the `syntaxDetails` option.
+     *   `DomHandler` keeps the list as `x-attributes`.
+     * - `error`: Keep the first value, and report the duplicate as a
+     *   `WellFormednessError` with the `duplicate-attribute` code. Errors are
+     *   passed to `onerror`; if the handler doesn't implement it, they are
+     *   thrown.
+     *
+     * @default "first"
+     */
+    duplicateAttributes?: "first" | "last" | "all" | "error";
+
+    /**
+     * If set to `true`, the tokenizer keeps track of lines as the input is
+     * written, so that `startPosition` and `endPosition` can be retrieved for
+     * every event. `DomHandler` will add a `sourceCodeLocation` to nodes.
+     *
+     * @default false
+     */
+    sourceCodeLocationInfo?: boolean;
+
+    /**
+     * If set to `true`, `ontext` and `onattribute` additionally receive the
+     * source the data was read from, including the original spelling of
+     * entities. Attributes passed to `onopentag` with the `syntaxDetails`
+     * option get a `rawValue`.
+     *
+     * Text events emitted with `treeConstruction` don't include the source,
+     * as the tree builder might split and merge text.
+     *
+     * @default false
+     */
+    rawSource?: boolean;
+
+    /**
+     * If set to `true`, `onopentag` additionally receives the attributes of
+     * the tag in source order, including duplicates, their quotes, the names
+     * as written and their locations. `onopentag` and `onclosetag` also
+     * indicate whether the tag used self-closing syntax. `DomHandler` keeps
+     * these details as `x-attributes` and `x-selfClosing`.
+     *
+     * @default false
+     */
+    syntaxDetails?: boolean;
+
+    /**
+     * If set to `true`, prefixes of elements and attributes are resolved
+     * using the `xmlns` declarations in scope. `onopentag` and `onclosetag`
+     * receive the qualified name of the element, attributes get a namespace,
+     * and declarations are reported via `onstartprefixmapping` and
+     * `onendprefixmapping`. Declarations that rebind the reserved `xml` and
+     * `xmlns` prefixes or namespaces, or that undeclare a prefix, are
+     * ignored. Only has an effect if `xmlMode` is enabled.
+     *
+     * @default false
+     */
+    xmlNamespaces?: boolean;
+
+    /**
+     * The maximum nesting depth of entities declared in the document type,
+     * ie. entities referencing other entities. Only has an effect if
+     * `xmlMode` is enabled.
+     *
+     * @default 16
+     */
+    maxEntityExpansionDepth?: number;
+
+    /**
+     * The maximum number of characters that entities declared in the
+     * document type may expand to, across the whole document. Protects
+     * against exponential expansion (the "billion laughs" attack). References
+     * exceeding the limit are reported as parse errors and kept as text.
+     * Only has an effect if `xmlMode` is enabled.
+     *
+     * @default 1_000_000
+     */
+    maxEntityExpansionLength?: number;
+
+    /**
+     * If set to `true`, violations of the XML well-formedness constraints
+     * are reported as `WellFormednessError`s, including all parse errors.
+     * Errors are passed to `onerror`; if the handler doesn't implement it,
+     * they are thrown. The document is still repaired the same way as
+     * without this option. Only has an effect if `xmlMode` is enabled.
+     *
+     * @default false
+     */
+    strict?: boolean;
+
+    /**
+     * The maximum number of open elements. Exceeding any of the resource
+     * limits aborts parsing: a `ResourceLimitError` is passed to `onerror`,
+     * or thrown if the handler doesn't implement it, and all further input
+     * is ignored until the parser is reset.
+     *
+     * With `treeConstruction` and `impliedStructure`, implied elements like
+     * `<html>` and `<body>` count towards the depth.
+     *
+     * @default Infinity
+     */
+    maxDepth?: number;
+
+    /**
+     * The maximum number of attributes of a single element.
+     *
+     * @default Infinity
+     */
+    maxAttributes?: number;
+
+    /**
+     * The maximum length of a single attribute value, after decoding
+     * entities.
+     *
+     * @default Infinity
+     */
+    maxAttributeValueLength?: number;
+
+    /**
+     * The maximum length of the name of a start or end tag.
+     *
+     * @default Infinity
+     */
+    maxTagNameLength?: number;
+
+    /**
+     * The maximum length of a single text node, after decoding entities.
+     * Counts text that is emitted in multiple `ontext` events. Text up to the
+     * limit is still emitted, no matter how the input is split into chunks.
+     *
+     * @default Infinity
+     */
+    maxTextLength?: number;
+
+    /**
+     * The maximum number of characters written to the parser.
+     *
+     * @default Infinity
+     */
+    maxInputLength?: number;
+
     /**
      * Allows the default tokenizer to be overwritten.
      */
     Tokenizer?: typeof Tokenizer;
 }
 
+/**
+ * An attribute of a start tag, along with its location in the source.
+ * The parts of the qualified name are only set with `xmlNamespaces`, and for
+ * attributes like `xlink:href` of SVG and MathML elements in HTML mode.
+ */
+export interface Attribute extends Partial<QualifiedName> {
+    name: string;
+    /**
+     * The name as it appears in the source, before it was lowercased or its
+     * case was adjusted for SVG and MathML.
+     */
+    rawName: string;
+    value: string;
+    /** Quotes used around the value, as reported by `Handler.onattribute`. */
+    quote: string | undefined | null;
+    /** The index of the first character of the name. */
+    nameStartIndex: number;
+    /** The index after the last character of the name. */
+    nameEndIndex: number;
+    /**
+     * The index of the first character of the value, excluding quotes.
+     * Equal to `nameEndIndex` if the attribute has no value.
+     */
+    valueStartIndex: number;
+    /** The index after the last character of the value, excluding quotes. */
+    valueEndIndex: number;
+    /** The value as it appears in the source. Only set with `rawSource`. */
+    rawValue?: string;
+}
+
+/**
+ * Why a tag was dropped, as reported by `Handler.onignoredtag`.
+ *
+ * - `unmatched`: An end tag without a matching open element.
+ * - `unterminated`: A tag that was cut off by the end of the input.
+ * - `unexpected`: A tag that isn't allowed in its position, eg. a second
+ *   `<body>` with the `impliedStructure` option.
+ */
+export type IgnoredTagKind = "unmatched" | "unterminated" | "unexpected";
+
 export interface Handler {
     onparserinit(parser: Parser): void;
 
@@ -168,39 +369,237 @@ export interface Handler {
      */
     onend(): void;
     onerror(error: Error): void;
-    onclosetag(name: string, isImplied: boolean): void;
+    /**
+     * Called for malformed input. Parsing continues after the error.
+     *
+     * @param code The error code, as used by the WHATWG HTML spec.
+     * @param startIndex Index of the first character of the offending input.
+     * @param endIndex Index of the last character of the offending input. Errors at the end of the input are reported at the index after the last character.
+     */
+    onparseerror(
+        code: ParseErrorCode,
+        startIndex: number,
+        endIndex: number,
+    ): void;
+    /**
+     * @param name Name of the tag.
+     * @param isImplied Whether the tag was implied, eg. by an end of input.
+     * @param qualifiedName The resolved name of the tag. Only passed with the `xmlNamespaces` option.
+     * @param isSelfClosing Whether the element was closed by its own start tag, which used self-closing syntax (eg. `<br/>`). Only passed if `true`, with the `syntaxDetails` option.
+     */
+    onclosetag(
+        name: string,
+        isImplied: boolean,
+        qualifiedName?: QualifiedName,
+        isSelfClosing?: boolean,
+    ): void;
     onopentagname(name: string): void;
+    /**
+     * Called for tags that are dropped from the document, so that no other
+     * events are emitted for them. Start tags that are cut off by the end of
+     * the input are an exception: their `onopentagname` and `onattribute`
+     * events were emitted already, but they aren't opened or closed. The tag
+     * spans from `startIndex` to `endIndex`.
+     *
+     * Not called with `treeConstruction`, where tags are dropped by the tree
+     * construction algorithm without being reported.
+     *
+     * @param name Name of the tag. Might be incomplete for unterminated tags.
+     * @param kind Why the tag was dropped.
+     * @param isEndTag Whether the tag is an end tag.
+     */
+    onignoredtag(name: string, kind: IgnoredTagKind, isEndTag: boolean): void;
     /**
      *
      * @param name Name of the attribute
      * @param value Value of the attribute.
      * @param quote Quotes used around the attribute. `null` if the attribute has no quotes around the value, `undefined` if the attribute has no value.
+     * @param rawValue The value as it appears in the source. Only passed with the `rawSource` option.
      */
     onattribute(
         name: string,
         value: string,
         quote?: string | undefined | null,
+        rawValue?: string,
     ): void;
+    /**
+     * @param name Name of the tag.
+     * @param attribs Values of the attributes. Only the first occurrence of an attribute is kept, unless the `duplicateAttributes` option is set.
+     * @param isImplied Whether the tag was implied, eg. by a closing tag.
+     * @param attributes All attributes in source order, including duplicates, their quotes, the names as written and their locations. Passed with the `syntaxDetails` option, with `duplicateAttributes: "all"`, and with `xmlNamespaces`, where attributes get their namespace.
+     * @param qualifiedName The resolved name of the tag. Passed with the `xmlNamespaces` option, and in HTML mode, where it indicates whether the element is an HTML, SVG or MathML element.
+     * @param isSelfClosing Whether the start tag used self-closing syntax (eg. `<div/>`), even if it didn't close the element. Only passed if `true`, with the `syntaxDetails` option.
+     */
     onopentag(
         name: string,
         attribs: { [s: string]: string },
         isImplied: boolean,
+        attributes?: Attribute[],
+        qualifiedName?: QualifiedName,
+        isSelfClosing?: boolean,
     ): void;
-    ontext(data: string): void;
+    /**
+     * Called before `onopentag` for each namespace declaration of the tag,
+     * if the `xmlNamespaces` option is set.
+     *
+     * @param prefix The declared prefix, or `null` for the default namespace.
+     * @param uri The namespace URI. Empty if the declaration removes the default namespace.
+     */
+    onstartprefixmapping(prefix: string | null, uri: string): void;
+    /**
+     * Called after `onclosetag` for each namespace declaration that goes out
+     * of scope, if the `xmlNamespaces` option is set.
+     *
+     * @param prefix The declared prefix, or `null` for the default namespace.
+     */
+    onendprefixmapping(prefix: string | null): void;
+    /**
+     * @param data The text, with entities decoded.
+     * @param raw The text as it appears in the source. Only passed with the `rawSource` option.
+     */
+    ontext(data: string, raw?: string): void;
     oncomment(data: string): void;
     oncdatastart(): void;
     oncdataend(): void;
     oncommentend(): void;
-    onprocessinginstruction(name: string, data: string): void;
+    /**
+     * Called for processing instructions, and for declarations other than
+     * comments and CDATA sections.
+     *
+     * @param name The name, prefixed with `?` or `!`.
+     * @param data The contents, prefixed with `?` or `!`.
+     * @param attributes The pseudo-attributes of a processing instruction
+     * (eg. `<?xml-stylesheet href="a.css"?>`), or `null` if its contents
+     * aren't pseudo-attributes. Not passed for declarations.
+     */
+    onprocessinginstruction(
+        name: string,
+        data: string,
+        attributes?: Record<string, string> | null,
+    ): void;
+    /**
+     * Called for the `<?xml ?>` declaration, after the
+     * `onprocessinginstruction` event for the declaration.
+     *
+     * @param version The XML version, or `null` if it is missing.
+     * @param encoding The declared encoding, or `null` if it is missing.
+     * @param standalone Whether the document is declared as standalone, or
+     * `null` if it is missing.
+     */
+    onxmldeclaration(
+        version: string | null,
+        encoding: string | null,
+        standalone: boolean | null,
+    ): void;
+    /**
+     * Called for `<!DOCTYPE>` declarations in HTML mode, after the
+     * `onprocessinginstruction` event for the declaration.
+     *
+     * @param name The lowercased name of the doctype, or `null` if it is missing.
+     * @param publicId The public identifier, or `null` if it is missing.
+     * @param systemId The system identifier, or `null` if it is missing.
+     * @param forceQuirks Whether the doctype was malformed, which forces quirks mode.
+     */
+    ondoctype(
+        name: string | null,
+        publicId: string | null,
+        systemId: string | null,
+        forceQuirks: boolean,
+    ): void;
+    /**
+     * Called for `<!ELEMENT>` declarations in the internal subset of a
+     * doctype in XML mode.
+     *
+     * @param name The name of the element.
+     * @param contentModel The allowed content, eg. `EMPTY` or `(#PCDATA|b)*`.
+     */
+    onelementdeclaration(name: string, contentModel: string): void;
+    /**
+     * Called for each attribute of `<!ATTLIST>` declarations in the
+     * internal subset of a doctype in XML mode.
+     *
+     * @param elementName The name of the element the attribute belongs to.
+     * @param name The name of the attribute.
+     * @param type The type of the attribute, eg. `CDATA`, `ID` or `(a|b)`.
+     * @param mode The keyword before the default value, or `null` if there is none.
+     * @param defaultValue The default value as written, or `null` if there is none.
+     */
+    onattributedeclaration(
+        elementName: string,
+        name: string,
+        type: string,
+        mode: "#REQUIRED" | "#IMPLIED" | "#FIXED" | null,
+        defaultValue: string | null,
+    ): void;
+    /**
+     * Called for `<!ENTITY>` declarations in the internal subset of a
+     * doctype in XML mode. References to internal general entities are
+     * expanded in the remainder of the document.
+     *
+     * @param name The name of the entity.
+     * @param value The replacement text, or `null` for external entities.
+     * @param publicId The public identifier, or `null` if it is missing.
+     * @param systemId The system identifier, or `null` if it is missing.
+     * @param isParameterEntity Whether the entity was declared with `%`.
+     */
+    onentitydeclaration(
+        name: string,
+        value: string | null,
+        publicId: string | null,
+        systemId: string | null,
+        isParameterEntity: boolean,
+    ): void;
 }
 
 const reNameEnd = /\s|\//;
 
+/** The namespaces declared on an open element. */
+interface NamespaceScope {
+    /** The namespaces in scope for the element. */
+    bindings: NamespaceBindings;
+    /** The prefixes declared on the element. */
+    declared: (string | null)[];
+    /** The resolved name of the element, once its attributes were read. */
+    name: QualifiedName | null;
+}
+const reOnlyWhitespace = /^[\t\n\f\r ]*$/;
+
+/** Like `Omit`, but applied to each member of a union. */
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+    ? Omit<T, K>
+    : never;
+
 export class Parser implements Callbacks {
     /** The start index of the last event. */
     public startIndex = 0;
     /** The end index of the last event. */
     public endIndex = 0;
+
+    /**
+     * The mode browsers would render the document in, based on its doctype.
+     * XML documents are never in quirks mode.
+     */
+    public get documentMode(): DocumentMode {
+        if (this.treeBuilder) return this.treeBuilder.documentMode;
+        if (!this.htmlMode) return "no-quirks";
+        return this.doctype ? getDocumentMode(this.doctype) : "quirks";
+    }
+
+    /**
+     * The line and column of the start of the last event.
+     * `null` unless the `sourceCodeLocationInfo` option is set.
+     */
+    public get startPosition(): SourcePosition | null {
+        return this.tokenizer.getPosition(this.startIndex);
+    }
+
+    /**
+     * The line and column of the last character of the last event.
+     * `null` unless the `sourceCodeLocationInfo` option is set.
+     */
+    public get endPosition(): SourcePosition | null {
+        return this.tokenizer.getPosition(this.endIndex);
+    }
     /**
      * Store the start index of the current open tag,
      * so we can update the start index for attributes.
@@ -209,18 +608,82 @@ export class Parser implements Callbacks {
 
     private tagname = "";
     private attribname = "";
+    /** The name of the current attribute as it appears in the source. */
+    private attribRawName = "";
     private attribvalue = "";
+    private attribNameStart = 0;
+    private attribNameEnd = 0;
+    /** The source of the current attribute value, if `rawSource` is set. */
+    private attribRawValue = "";
+    /** The end of the source that was added to `attribRawValue`. */
+    private attribRawEnd = 0;
     private attribs: null | { [key: string]: string } = null;
+    /** The attribute names of the current tag, used to report duplicates. */
+    private readonly attribNames = new Set<string>();
+    /** The number of attributes of the current tag, used for `maxAttributes`. */
+    private attributeCount = 0;
+    /**
+     * The attributes of the current tag, in source order. Only collected if
+     * `keepAttributes` is set.
+     */
+    private attributes: Attribute[] = [];
+    /**
+     * Attributes are only collected if they are passed to `onopentag`, or
+     * needed to resolve namespaces or construct the tree.
+     */
+    private readonly keepAttributes: boolean;
+    /** Whether the attribute list is passed to `onopentag`. */
+    private readonly passAttributes: boolean;
     private readonly stack: string[] = [];
-    /** Determines whether self-closing tags are recognized. */
-    private readonly foreignContext: boolean[];
+    /**
+     * The sizes of `stack` after `<template>` elements were opened, in HTML
+     * mode. The content of a template doesn't interact with elements outside
+     * of it; eg. a `<li>` in a template doesn't close an outer `<li>`.
+     */
+    private readonly templateBoundaries: number[] = [];
+    /** The namespace scopes of the elements in `stack`, with `xmlNamespaces`. */
+    private readonly namespaceStack: NamespaceScope[] = [];
+    /**
+     * The namespaces of the content of open elements, in HTML mode. `null`
+     * in XML mode. Self-closing tags are recognized outside of HTML.
+     */
+    private readonly foreignContext: (Namespace | null)[];
+    /**
+     * The namespace of the current tag in HTML mode, used to adjust the
+     * names of its attributes.
+     */
+    private tagNamespace: Namespace | null = null;
     private readonly cbs: Partial<Handler>;
     private readonly lowerCaseTagNames: boolean;
     private readonly lowerCaseAttributeNames: boolean;
     private readonly recognizeSelfClosing: boolean;
+    private readonly rawSource: boolean;
+    private readonly syntaxDetails: boolean;
+    private readonly xmlNamespaces: boolean;
+    private readonly strict: boolean;
+    private readonly schema: Schema;
+    private readonly impliedStructure: boolean;
+    private readonly duplicateAttributes: NonNullable<
+        ParserOptions["duplicateAttributes"]
+    >;
+    /** The progress through the document, or `null` without `impliedStructure`. */
+    private structure: StructurePhase | null;
+    /** Set while handling a start tag that ends with `/>`. */
+    private isSelfClosing = false;
+    /** Set for start tags that are dropped, eg. a second `<body>`. */
+    private isTagIgnored = false;
+    /** Used to report multiple root elements with the `strict` option. */
+    private hasRootElement = false;
     /** We are parsing HTML. Inverse of the `xmlMode` option. */
     private readonly htmlMode: boolean;
     private readonly tokenizer: Tokenizer;
+    /** Used to construct the tree if the `treeConstruction` option is set. */
+    private readonly treeBuilder: TreeBuilder | null;
+    /**
+     * The doctype that determines the document mode. `null` if content
+     * appeared before any doctype, `undefined` if neither was seen yet.
+     */
+    private doctype: Doctype | null | undefined = undefined;
 
     private readonly buffers: string[] = [];
     private bufferOffset = 0;
@@ -228,6 +691,24 @@ export class Parser implements Callbacks {
     private writeIndex = 0;
     /** Indicates whether the parser has finished running / `.end` has been called. */
     private ended = false;
+    /** Set once a resource limit was exceeded. All further input is ignored. */
+    private aborted = false;
+    /** Whether any of the resource limit options is set. */
+    private readonly hasLimits: boolean;
+    /**
+     * The qualified names of elements in HTML mode, by namespace and name.
+     * Names are reused, so that no object is created for every tag.
+     */
+    private readonly htmlNames = new Map<
+        Namespace,
+        Map<string, QualifiedName>
+    >();
+    /** The number of characters written so far, used for `maxInputLength`. */
+    private inputLength = 0;
+    /** The length of the current text node, used for `maxTextLength`. */
+    private textLength = 0;
+    /** The index after the last emitted text. */
+    private textEndIndex = 0;
 
     constructor(
         cbs?: Partial<Handler> | null,
@@ -240,97 +721,592 @@ export class Parser implements Callbacks {
             options.lowerCaseAttributeNames ?? this.htmlMode;
         this.recognizeSelfClosing =
             options.recognizeSelfClosing ?? !this.htmlMode;
+        this.rawSource = options.rawSource ?? false;
+        this.syntaxDetails = options.syntaxDetails ?? false;
+        this.xmlNamespaces = !this.htmlMode && !!options.xmlNamespaces;
+        this.strict = !this.htmlMode && !!options.strict;
+        this.schema = options.schema ?? defaultSchema;
+        this.impliedStructure =
+            this.htmlMode &&
+            !!options.impliedStructure &&
+            !options.treeConstruction &&
+            !options.context;
+        this.structure = this.impliedStructure ? "initial" : null;
+        this.duplicateAttributes = options.duplicateAttributes ?? "first";
+        this.hasLimits = resourceLimits.some(
+            (limit) => options[limit] !== undefined,
+        );
         this.tokenizer = new (options.Tokenizer ?? Tokenizer)(
             this.options,
             this,
         );
-        this.foreignContext = [!this.htmlMode];
+        this.foreignContext = [this.htmlMode ? Namespace.HTML : null];
+        this.treeBuilder =
+            this.htmlMode && options.treeConstruction
+                ? new TreeBuilder(
+                      options.textElements ?? this.schema.textElements,
+                  )
+                : null;
+        this.passAttributes =
+            this.syntaxDetails ||
+            this.xmlNamespaces ||
+            this.duplicateAttributes === "all";
+        this.keepAttributes = this.passAttributes || this.treeBuilder !== null;
+        this.startFragment();
         this.cbs.onparserinit?.(this);
     }
 
+    /** Sets up parsing the content of the `context` element. */
+    private startFragment() {
+        if (!this.htmlMode || !this.options.context) return;
+
+        const name = this.options.context.toLowerCase();
+        this.tokenizer.startTextElement(name);
+        this.treeBuilder?.startFragment(name);
+
+        if (this.schema.foreignContextElements.has(name)) {
+            this.foreignContext.unshift(this.getElementNamespace(name));
+        } else if (this.schema.htmlIntegrationElements.has(name)) {
+            this.foreignContext.unshift(Namespace.HTML);
+        }
+    }
+
+    /**
+     * Gets the namespace of an element that is opened in HTML mode. Custom
+     * foreign context elements are considered to be SVG.
+     *
+     * @param name The lowercased name of the element.
+     */
+    private getElementNamespace(name: string): Namespace | null {
+        if (!this.schema.foreignContextElements.has(name)) {
+            return this.foreignContext[0];
+        }
+        return name === "math" ? Namespace.MathML : Namespace.SVG;
+    }
+
     // Tokenizer event handlers
 
     /** @internal */
     ontext(start: number, endIndex: number): void {
+        if (this.aborted) return;
+
         const data = this.getSlice(start, endIndex);
         this.endIndex = endIndex - 1;
-        this.cbs.ontext?.(data);
+
+        const excess = this.countText(data.length);
+        if (excess > 0) {
+            /*
+             * Text up to the limit is still emitted, so that the same text is
+             * emitted no matter how the input was split into chunks.
+             */
+            const allowed = data.slice(0, data.length - excess);
+            if (allowed) {
+                this.endIndex = start + allowed.length - 1;
+                this.emitText(allowed, allowed);
+            }
+            this.exceedsLimit(
+                "maxTextLength",
+                this.textLength,
+                start + allowed.length,
+            );
+            return;
+        }
+
+        this.emitText(data, data);
         this.startIndex = endIndex;
     }
 
     /** @internal */
     ontextentity(cp: number, endIndex: number): void {
+        this.ontextreplacement(fromCodePoint(cp), endIndex);
+    }
+
+    /** @internal */
+    ontextreplacement(data: string, endIndex: number): void {
+        if (this.aborted) return;
+
         this.endIndex = endIndex - 1;
-        this.cbs.ontext?.(fromCodePoint(cp));
+
+        if (this.countText(data.length) > 0) {
+            this.exceedsLimit(
+                "maxTextLength",
+                this.textLength,
+                this.startIndex,
+            );
+            return;
+        }
+
+        this.emitText(
+            data,
+            // Entities with two code points are emitted twice, with the same end.
+            this.rawSource && this.startIndex < endIndex
+                ? this.getSlice(this.startIndex, endIndex)
+                : "",
+        );
         this.startIndex = endIndex;
     }
 
     /**
-     * Checks if the current tag is a void element. Override this if you want
-     * to specify your own additional void elements.
+     * Adds text to the length of the current text node, for `maxTextLength`.
+     *
+     * @param length The length of the text, after decoding entities.
+     * @returns The number of characters exceeding the limit.
+     */
+    private countText(length: number): number {
+        if (!this.hasLimits) return 0;
+
+        // Text is emitted in parts; only count parts of the same node.
+        if (this.startIndex !== this.textEndIndex) this.textLength = 0;
+        this.textLength += length;
+        this.textEndIndex = this.endIndex + 1;
+
+        const maximum = this.options.maxTextLength;
+        return maximum === undefined
+            ? 0
+            : Math.max(this.textLength - maximum, 0);
+    }
+
+    /**
+     * @param data The text to emit.
+     * @param raw The source of the text. Only passed on if `rawSource` is set.
+     */
+    private emitText(data: string, raw: string) {
+        if (this.treeBuilder) {
+            this.processToken({ type: TokenType.Characters, data });
+        } else {
+            if (this.doctype === undefined && !reOnlyWhitespace.test(data)) {
+                this.doctype = null;
+            }
+            if (
+                this.structure !== null &&
+                this.structure !== "inBody" &&
+                (this.stack.length === 0 ||
+                    this.stack[0] === "html" ||
+                    this.stack[0] === "head") &&
+                !reOnlyWhitespace.test(data)
+            ) {
+                this.openImpliedStructure(null);
+                if (this.aborted) return;
+            }
+            if (
+                this.strict &&
+                this.stack.length === 0 &&
+                !reOnlyWhitespace.test(data)
+            ) {
+                this.reportError(
+                    WellFormednessErrorCode.ContentOutsideRootElement,
+                    this.startIndex,
+                    this.endIndex,
+                );
+            }
+            if (this.rawSource) {
+                this.cbs.ontext?.(data, raw);
+            } else {
+                this.cbs.ontext?.(data);
+            }
+        }
+    }
+
+    /**
+     * Passes a token to the tree builder, using the current position.
+     */
+    private processToken(
+        token: DistributiveOmit<Token, "startIndex" | "endIndex">,
+    ) {
+        this.treeBuilder!.process({
+            ...token,
+            startIndex: this.startIndex,
+            endIndex: this.endIndex,
+        } as Token);
+    }
+
+    /**
+     * Checks if the current tag is a void element. Void elements are usually
+     * declared by the `schema` option; override this to decide dynamically.
      */
     protected isVoidElement(name: string): boolean {
-        return this.htmlMode && voidElements.has(name);
+        return this.htmlMode && this.schema.voidElements.has(name);
     }
 
     /** @internal */
     onopentagname(start: number, endIndex: number): void {
+        if (this.aborted) return;
+
         this.endIndex = endIndex;
 
+        if (
+            this.hasLimits &&
+            this.exceedsLimit("maxTagNameLength", endIndex - start, start)
+        ) {
+            return;
+        }
+
         let name = this.getSlice(start, endIndex);
 
         if (this.lowerCaseTagNames) {
             name = name.toLowerCase();
         }
 
+        if (this.structure !== null) {
+            if (this.openImpliedStructure(name)) {
+                this.isTagIgnored = true;
+                this.openTagStart = this.startIndex;
+                this.tagname = name;
+                return;
+            }
+
+            // An implied element might have exceeded `maxDepth`.
+            // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+            if (this.aborted) return;
+        }
+
+        if (
+            this.hasLimits &&
+            !this.isVoidElement(name) &&
+            this.exceedsLimit(
+                "maxDepth",
+                (this.treeBuilder?.depth ?? this.stack.length) + 1,
+                this.startIndex,
+            )
+        ) {
+            return;
+        }
+
+        if (this.strict) {
+            this.checkName(name, start, endIndex);
+
+            if (this.stack.length === 0 && this.hasRootElement) {
+                this.reportError(
+                    WellFormednessErrorCode.MultipleRootElements,
+                    this.startIndex,
+                    endIndex - 1,
+                );
+            }
+            this.hasRootElement = true;
+        }
+
         this.emitOpenTag(name);
     }
 
+    /**
+     * Opens the implied `<html>`, `<head>` and `<body>` elements that have to
+     * precede an element or text, with the `impliedStructure` option.
+     *
+     * @param name The name of the element, or `null` for text.
+     * @returns Whether the element has to be ignored.
+     */
+    private openImpliedStructure(name: string | null): boolean {
+        // Templates have their own content, which is left as-is.
+        if (this.templateBoundaries.length > 0) return false;
+
+        if (this.structure === "initial") {
+            this.structure = "beforeHead";
+            if (name === "html") return false;
+            this.openImpliedElement("html");
+        }
+
+        if (name === "html") return true;
+
+        if (this.structure === "beforeHead") {
+            this.structure = "inHead";
+            if (name === "head") return false;
+            this.openImpliedElement("head");
+        }
+
+        if (this.structure === "inHead") {
+            if (name === "head") return true;
+            if (name !== null && this.schema.headElements.has(name)) {
+                return false;
+            }
+
+            // Elements in `<head>`, eg. `<noscript>`, are closed as well.
+            const pos = this.stack.indexOf("head");
+            for (let index = 0; index <= pos; index++) {
+                this.popElement(true);
+            }
+
+            this.structure = "inBody";
+            if (name !== "body") this.openImpliedElement("body");
+            return false;
+        }
+
+        return name === "head" || name === "body";
+    }
+
+    private openImpliedElement(name: string) {
+        if (
+            this.aborted ||
+            (this.hasLimits &&
+                this.exceedsLimit(
+                    "maxDepth",
+                    this.stack.length + 1,
+                    this.startIndex,
+                ))
+        ) {
+            return;
+        }
+
+        this.emitOpenTag(name);
+        this.endOpenTag(true);
+    }
+
     private emitOpenTag(name: string) {
+        this.doctype ??= null;
         this.openTagStart = this.startIndex;
         this.tagname = name;
+        this.tagNamespace = null;
+        this.attribNames.clear();
+        this.attributeCount = 0;
+
+        if (this.treeBuilder) {
+            // The tree builder takes care of the stack.
+            this.attribs = {};
+            this.attributes = [];
+            return;
+        }
 
-        const impliesClose = this.htmlMode && openImpliesClose.get(name);
+        if (this.htmlMode) {
+            this.tagNamespace = this.getElementNamespace(name);
+            // Only the names of foreign elements are adjusted.
+            if (this.tagNamespace !== Namespace.HTML) {
+                this.tagname = adjustTagName(name, this.tagNamespace);
+            }
+        }
+
+        const impliesClose =
+            this.htmlMode && this.schema.openImpliesClose.get(name);
 
         if (impliesClose) {
-            while (this.stack.length > 0 && impliesClose.has(this.stack[0])) {
-                const element = this.stack.shift()!;
-                this.cbs.onclosetag?.(element, true);
+            const boundary = this.getStackBoundary();
+            while (
+                this.stack.length > boundary &&
+                impliesClose.has(this.stack[0])
+            ) {
+                this.popElement(true);
             }
         }
         if (!this.isVoidElement(name)) {
-            this.stack.unshift(name);
+            this.stack.unshift(this.tagname);
+
+            if (this.tagNamespace === Namespace.HTML && name === "template") {
+                this.templateBoundaries.push(this.stack.length);
+            }
+
+            if (this.xmlNamespaces) {
+                this.namespaceStack.unshift(this.createNamespaceScope());
+            }
 
             if (this.htmlMode) {
-                if (foreignContextElements.has(name)) {
-                    this.foreignContext.unshift(true);
-                } else if (htmlIntegrationElements.has(name)) {
-                    this.foreignContext.unshift(false);
+                if (this.schema.foreignContextElements.has(name)) {
+                    this.foreignContext.unshift(this.tagNamespace);
+                } else if (this.schema.htmlIntegrationElements.has(name)) {
+                    this.foreignContext.unshift(Namespace.HTML);
+                }
+            }
+        }
+        this.cbs.onopentagname?.(this.tagname);
+        if (this.xmlNamespaces || this.cbs.onopentag) {
+            this.attribs = {};
+            if (this.keepAttributes) this.attributes = [];
+        }
+    }
+
+    private endOpenTag(isImplied: boolean) {
+        this.startIndex = this.openTagStart;
+        const isVoid = this.isVoidElement(this.tagname);
+        const scope = this.xmlNamespaces
+            ? this.declareNamespaces(
+                  isVoid ? this.createNamespaceScope() : this.namespaceStack[0],
+              )
+            : null;
+
+        if (this.attribs) {
+            const qualifiedName =
+                scope?.name ??
+                (this.tagNamespace &&
+                    this.getHtmlName(this.tagname, this.tagNamespace));
+
+            const attributes = this.passAttributes
+                ? this.attributes
+                : undefined;
+
+            if (this.syntaxDetails && this.isSelfClosing) {
+                this.cbs.onopentag?.(
+                    this.tagname,
+                    this.attribs,
+                    isImplied,
+                    attributes,
+                    qualifiedName ?? undefined,
+                    true,
+                );
+            } else if (qualifiedName) {
+                this.cbs.onopentag?.(
+                    this.tagname,
+                    this.attribs,
+                    isImplied,
+                    attributes,
+                    qualifiedName,
+                );
+            } else if (attributes) {
+                this.cbs.onopentag?.(
+                    this.tagname,
+                    this.attribs,
+                    isImplied,
+                    attributes,
+                );
+            } else {
+                this.cbs.onopentag?.(this.tagname, this.attribs, isImplied);
+            }
+            this.attribs = null;
+        }
+        if (isVoid) {
+            this.emitCloseTagEvent(this.tagname, true, scope);
+        }
+
+        this.tagname = "";
+    }
+
+    /** Creates a scope that inherits the namespaces of the current element. */
+    private createNamespaceScope(): NamespaceScope {
+        return {
+            bindings:
+                this.namespaceStack[0]?.bindings ?? defaultNamespaceBindings,
+            declared: [],
+            name: null,
+        };
+    }
+
+    /**
+     * Adds the namespaces declared by the attributes of the current tag to
+     * the scope, and resolves the names of the tag and its attributes.
+     */
+    private declareNamespaces(scope: NamespaceScope): NamespaceScope {
+        for (const attribute of this.attributes) {
+            const { value } = attribute;
+            const prefix = getDeclaredPrefix(attribute.name);
+            if (prefix === undefined) continue;
+
+            // Declarations of reserved prefixes and namespaces are ignored.
+            if (!isAllowedDeclaration(prefix, value)) {
+                if (this.strict) {
+                    this.reportError(
+                        WellFormednessErrorCode.InvalidNamespaceDeclaration,
+                        attribute.nameStartIndex,
+                        attribute.nameEndIndex - 1,
+                    );
                 }
+                continue;
+            }
+
+            if (scope.declared.length === 0) {
+                scope.bindings = new Map(scope.bindings);
+            }
+
+            const bindings = scope.bindings as Map<string | null, string>;
+            if (value) {
+                bindings.set(prefix, value);
+            } else {
+                bindings.delete(prefix);
             }
+
+            scope.declared.push(prefix);
+            this.cbs.onstartprefixmapping?.(prefix, value);
+        }
+
+        for (const attribute of this.attributes) {
+            const name = resolveName(attribute.name, scope.bindings, true);
+            Object.assign(attribute, name);
+
+            if (this.strict && name.prefix !== null && !name.namespace) {
+                this.reportError(
+                    WellFormednessErrorCode.UnboundNamespacePrefix,
+                    attribute.nameStartIndex,
+                    attribute.nameEndIndex - 1,
+                );
+            }
+        }
+
+        scope.name = resolveName(this.tagname, scope.bindings, false);
+
+        if (
+            this.strict &&
+            scope.name.prefix !== null &&
+            !scope.name.namespace
+        ) {
+            this.reportError(
+                WellFormednessErrorCode.UnboundNamespacePrefix,
+                this.startIndex,
+                this.endIndex,
+            );
         }
-        this.cbs.onopentagname?.(name);
-        if (this.cbs.onopentag) this.attribs = {};
+
+        return scope;
     }
 
-    private endOpenTag(isImplied: boolean) {
-        this.startIndex = this.openTagStart;
+    /**
+     * Gets the size of the stack when the current template was opened. The
+     * elements below are outside of the template.
+     */
+    private getStackBoundary(): number {
+        const { length } = this.templateBoundaries;
+        return length === 0 ? 0 : this.templateBoundaries[length - 1];
+    }
 
-        if (this.attribs) {
-            this.cbs.onopentag?.(this.tagname, this.attribs, isImplied);
-            this.attribs = null;
+    /** Removes the element on top of the stack, and emits its close tag. */
+    private popElement(isImplied: boolean) {
+        if (this.stack.length === this.getStackBoundary()) {
+            this.templateBoundaries.pop();
         }
-        if (this.cbs.onclosetag && this.isVoidElement(this.tagname)) {
-            this.cbs.onclosetag(this.tagname, true);
+        const name = this.stack.shift()!;
+        const scope = this.xmlNamespaces ? this.namespaceStack.shift() : null;
+        this.emitCloseTagEvent(name, isImplied, scope ?? null);
+    }
+
+    private emitCloseTagEvent(
+        name: string,
+        isImplied: boolean,
+        scope: NamespaceScope | null,
+    ) {
+        // The tag might not have been completed.
+        const qualifiedName =
+            scope && (scope.name ?? resolveName(name, scope.bindings, false));
+
+        if (this.syntaxDetails && this.isSelfClosing) {
+            this.cbs.onclosetag?.(
+                name,
+                isImplied,
+                qualifiedName ?? undefined,
+                true,
+            );
+        } else if (qualifiedName) {
+            this.cbs.onclosetag?.(name, isImplied, qualifiedName);
+        } else {
+            this.cbs.onclosetag?.(name, isImplied);
         }
 
-        this.tagname = "";
+        if (!scope) return;
+
+        for (let index = scope.declared.length - 1; index >= 0; index--) {
+            this.cbs.onendprefixmapping?.(scope.declared[index]);
+        }
     }
 
     /** @internal */
     onopentagend(endIndex: number): void {
+        if (this.aborted) return;
+
         this.endIndex = endIndex;
-        this.endOpenTag(false);
+
+        if (this.isTagIgnored) {
+            this.isTagIgnored = false;
+            this.startIndex = this.openTagStart;
+            this.cbs.onignoredtag?.(this.tagname, "unexpected", false);
+            this.tagname = "";
+        } else if (this.treeBuilder) {
+            this.processStartTag(false);
+        } else {
+            this.endOpenTag(false);
+        }
 
         // Set `startIndex` for next node
         this.startIndex = endIndex + 1;
@@ -338,58 +1314,168 @@ export class Parser implements Callbacks {
 
     /** @internal */
     onclosetag(start: number, endIndex: number): void {
+        if (this.aborted) return;
+
         this.endIndex = endIndex;
 
+        if (
+            this.hasLimits &&
+            this.exceedsLimit("maxTagNameLength", endIndex - start, start)
+        ) {
+            return;
+        }
+
         let name = this.getSlice(start, endIndex);
 
         if (this.lowerCaseTagNames) {
             name = name.toLowerCase();
         }
 
+        if (this.treeBuilder) {
+            this.processToken({ type: TokenType.EndTag, name });
+        } else {
+            this.doctype ??= null;
+
+            if (this.strict) {
+                this.checkName(name, start, endIndex);
+
+                if (this.stack[0] !== name) {
+                    this.reportError(
+                        WellFormednessErrorCode.MismatchedEndTag,
+                        this.startIndex,
+                        endIndex - 1,
+                    );
+                }
+            }
+
+            // With `impliedStructure`, these are closed at the end.
+            if (
+                this.structure === null ||
+                (name !== "html" && name !== "head" && name !== "body")
+            ) {
+                this.emitCloseTag(name);
+            } else {
+                this.cbs.onignoredtag?.(name, "unexpected", true);
+            }
+        }
+
+        // Set `startIndex` for next node
+        this.startIndex = endIndex + 1;
+    }
+
+    private emitCloseTag(name: string) {
         if (
             this.htmlMode &&
-            (foreignContextElements.has(name) ||
-                htmlIntegrationElements.has(name))
+            (this.schema.foreignContextElements.has(name) ||
+                this.schema.htmlIntegrationElements.has(name))
         ) {
             this.foreignContext.shift();
         }
 
         if (!this.isVoidElement(name)) {
-            const pos = this.stack.indexOf(name);
+            let pos = this.stack.indexOf(name);
+            if (pos === -1 && this.htmlMode) {
+                // SVG elements are on the stack with their adjusted name.
+                pos = this.stack.indexOf(adjustTagName(name, Namespace.SVG));
+            }
+            // Only the current template and its content can be closed.
+            if (pos > this.stack.length - this.getStackBoundary()) pos = -1;
             if (pos !== -1) {
                 for (let index = 0; index <= pos; index++) {
-                    const element = this.stack.shift()!;
-                    // We know the stack has sufficient elements.
-                    this.cbs.onclosetag?.(element, index !== pos);
+                    this.popElement(index !== pos);
                 }
             } else if (this.htmlMode && name === "p") {
                 // Implicit open before close
+                if (this.structure !== null) {
+                    this.openImpliedStructure("p");
+                    if (this.aborted) return;
+                }
                 this.emitOpenTag("p");
                 this.closeCurrentTag(true);
+            } else {
+                this.cbs.onignoredtag?.(name, "unmatched", true);
             }
         } else if (this.htmlMode && name === "br") {
+            if (this.structure !== null) {
+                this.openImpliedStructure("br");
+                if (this.aborted) return;
+            }
             // We can't use `emitOpenTag` for implicit open, as `br` would be implicitly closed.
             this.cbs.onopentagname?.("br");
-            this.cbs.onopentag?.("br", {}, true);
+            this.cbs.onopentag?.(
+                "br",
+                {},
+                true,
+                this.passAttributes ? [] : undefined,
+                this.getHtmlName("br", Namespace.HTML),
+            );
             this.cbs.onclosetag?.("br", false);
+        } else {
+            this.cbs.onignoredtag?.(name, "unmatched", true);
         }
-
-        // Set `startIndex` for next node
-        this.startIndex = endIndex + 1;
     }
 
     /** @internal */
     onselfclosingtag(endIndex: number): void {
+        if (this.aborted) return;
+
         this.endIndex = endIndex;
-        if (this.recognizeSelfClosing || this.foreignContext[0]) {
+        this.isSelfClosing = true;
+
+        if (this.isTagIgnored) {
+            this.onopentagend(endIndex);
+        } else if (this.treeBuilder) {
+            const name = this.tagname;
+            this.processStartTag(true);
+
+            if (
+                !this.treeBuilder.acknowledgedSelfClosing &&
+                !this.isVoidElement(name)
+            ) {
+                this.emitSelfClosingError(endIndex);
+            }
+
+            // Set `startIndex` for next node
+            this.startIndex = endIndex + 1;
+        } else if (
+            this.recognizeSelfClosing ||
+            this.foreignContext[0] !== Namespace.HTML
+        ) {
             this.closeCurrentTag(false);
 
             // Set `startIndex` for next node
             this.startIndex = endIndex + 1;
         } else {
+            if (this.htmlMode && !this.isVoidElement(this.tagname)) {
+                this.emitSelfClosingError(endIndex);
+            }
+
             // Ignore the fact that the tag is self-closing.
             this.onopentagend(endIndex);
         }
+
+        this.isSelfClosing = false;
+    }
+
+    private emitSelfClosingError(endIndex: number) {
+        this.onparseerror(
+            ParseErrorCode.NonVoidHtmlElementStartTagWithTrailingSolidus,
+            endIndex - 1,
+            endIndex,
+        );
+    }
+
+    private processStartTag(selfClosing: boolean) {
+        this.startIndex = this.openTagStart;
+        this.processToken({
+            type: TokenType.StartTag,
+            name: this.tagname,
+            attribs: this.attribs!,
+            attributes: this.attributes,
+            selfClosing,
+        });
+        this.attribs = null;
+        this.tagname = "";
     }
 
     private closeCurrentTag(isOpenImplied: boolean) {
@@ -399,54 +1485,242 @@ export class Parser implements Callbacks {
         // Self-closing tags will be on the top of the stack
         if (this.stack[0] === name) {
             // If the opening tag isn't implied, the closing tag has to be implied.
-            this.cbs.onclosetag?.(name, !isOpenImplied);
-            this.stack.shift();
+            this.popElement(!isOpenImplied);
         }
     }
 
     /** @internal */
     onattribname(start: number, endIndex: number): void {
+        if (this.aborted) return;
+
         this.startIndex = start;
+        this.attribNameStart = start;
+        this.attribNameEnd = endIndex;
+        this.attribRawEnd = endIndex;
+
+        if (
+            this.hasLimits &&
+            this.exceedsLimit("maxAttributes", ++this.attributeCount, start)
+        ) {
+            return;
+        }
+
         const name = this.getSlice(start, endIndex);
 
+        this.attribRawName = name;
         this.attribname = this.lowerCaseAttributeNames
             ? name.toLowerCase()
             : name;
+
+        // Only the attributes of foreign elements are adjusted.
+        if (
+            this.tagNamespace !== null &&
+            this.tagNamespace !== Namespace.HTML
+        ) {
+            this.attribname = adjustAttributeName(
+                this.attribname,
+                this.tagNamespace,
+            );
+        }
+
+        if (this.strict) {
+            this.checkName(this.attribname, start, endIndex);
+        }
+
+        if (
+            this.strict ||
+            this.duplicateAttributes === "error" ||
+            this.cbs.onparseerror
+        ) {
+            if (this.attribNames.has(this.attribname)) {
+                this.onparseerror(
+                    ParseErrorCode.DuplicateAttribute,
+                    start,
+                    endIndex - 1,
+                );
+
+                // With `strict`, parse errors are reported already.
+                if (this.duplicateAttributes === "error" && !this.strict) {
+                    this.reportError(
+                        ParseErrorCode.DuplicateAttribute,
+                        start,
+                        endIndex - 1,
+                    );
+                }
+            } else {
+                this.attribNames.add(this.attribname);
+            }
+        }
     }
 
     /** @internal */
     onattribdata(start: number, endIndex: number): void {
-        this.attribvalue += this.getSlice(start, endIndex);
+        if (this.aborted) return;
+
+        const data = this.getSlice(start, endIndex);
+        this.attribvalue += data;
+
+        if (
+            this.hasLimits &&
+            this.exceedsLimit(
+                "maxAttributeValueLength",
+                this.attribvalue.length,
+                start,
+            )
+        ) {
+            return;
+        }
+
+        if (this.rawSource) {
+            this.attribRawValue += data;
+            this.attribRawEnd = endIndex;
+        }
     }
 
     /** @internal */
-    onattribentity(cp: number): void {
+    onattribentity(cp: number, start: number, endIndex: number): void {
+        if (this.aborted) return;
+
         this.attribvalue += fromCodePoint(cp);
+
+        if (
+            this.hasLimits &&
+            this.exceedsLimit(
+                "maxAttributeValueLength",
+                this.attribvalue.length,
+                start,
+            )
+        ) {
+            return;
+        }
+
+        // Entities with two code points are emitted twice.
+        if (this.rawSource && start >= this.attribRawEnd) {
+            this.attribRawValue += this.getSlice(start, endIndex);
+            this.attribRawEnd = endIndex;
+        }
     }
 
     /** @internal */
-    onattribend(quote: QuoteType, endIndex: number): void {
+    onattribend(quote: QuoteType, endIndex: number, valueStart: number): void {
+        if (this.aborted) return;
+
         this.endIndex = endIndex;
 
-        this.cbs.onattribute?.(
-            this.attribname,
-            this.attribvalue,
+        const quoteString =
             quote === QuoteType.Double
                 ? '"'
                 : quote === QuoteType.Single
                   ? "'"
                   : quote === QuoteType.NoValue
                     ? undefined
-                    : null,
-        );
+                    : null;
+
+        if (this.strict) {
+            if (quote === QuoteType.NoValue) {
+                this.reportError(
+                    ParseErrorCode.MissingAttributeValue,
+                    this.attribNameStart,
+                    this.attribNameEnd - 1,
+                );
+            } else if (quote === QuoteType.Unquoted && endIndex > valueStart) {
+                // Empty values were reported as missing by the tokenizer.
+                this.reportError(
+                    WellFormednessErrorCode.UnquotedAttributeValue,
+                    valueStart,
+                    endIndex - 1,
+                );
+            }
+        }
+
+        const rawValue = this.rawSource ? this.attribRawValue : undefined;
+        this.attribRawValue = "";
+
+        // Attribute events are emitted along with the tree.
+        if (!this.treeBuilder && !this.isTagIgnored) {
+            this.emitAttribute(
+                this.attribname,
+                this.attribvalue,
+                quoteString,
+                rawValue,
+            );
+        }
+
+        if (this.attribs) {
+            if (this.keepAttributes) {
+                this.attributes.push(
+                    this.createAttribute(
+                        quote,
+                        quoteString,
+                        endIndex,
+                        valueStart,
+                        rawValue,
+                    ),
+                );
+            }
+            this.setAttributeValue(this.attribs, this.attribname);
+        }
+        this.attribvalue = "";
+    }
 
+    /** Adds the current value to `attribs`, following `duplicateAttributes`. */
+    private setAttributeValue(
+        attribs: { [key: string]: string },
+        name: string,
+    ) {
         if (
-            this.attribs &&
-            !Object.prototype.hasOwnProperty.call(this.attribs, this.attribname)
+            !Object.prototype.hasOwnProperty.call(attribs, name) ||
+            this.duplicateAttributes === "last"
         ) {
-            this.attribs[this.attribname] = this.attribvalue;
+            attribs[name] = this.attribvalue;
+        }
+    }
+
+    /** Creates the entry of the current attribute in `attributes`. */
+    private createAttribute(
+        quote: QuoteType,
+        quoteString: string | undefined | null,
+        endIndex: number,
+        valueStart: number,
+        rawValue: string | undefined,
+    ): Attribute {
+        const attribute: Attribute = {
+            name: this.attribname,
+            rawName: this.attribRawName,
+            value: this.attribvalue,
+            quote: quoteString,
+            nameStartIndex: this.attribNameStart,
+            nameEndIndex: this.attribNameEnd,
+            valueStartIndex: valueStart,
+            // The end index of quoted values includes the closing quote.
+            valueEndIndex:
+                quote === QuoteType.Double || quote === QuoteType.Single
+                    ? endIndex - 1
+                    : endIndex,
+        };
+
+        if (rawValue !== undefined) attribute.rawValue = rawValue;
+
+        const foreignName = getForeignAttributeName(
+            this.attribname,
+            this.tagNamespace,
+        );
+        if (foreignName) Object.assign(attribute, foreignName);
+
+        return attribute;
+    }
+
+    private emitAttribute(
+        name: string,
+        value: string,
+        quote: string | undefined | null,
+        rawValue: string | undefined,
+    ) {
+        if (rawValue === undefined) {
+            this.cbs.onattribute?.(name, value, quote);
+        } else {
+            this.cbs.onattribute?.(name, value, quote, rawValue);
         }
-        this.attribvalue = "";
     }
 
     private getInstructionName(value: string) {
@@ -462,38 +1736,206 @@ export class Parser implements Callbacks {
 
     /** @internal */
     ondeclaration(start: number, endIndex: number): void {
+        if (this.aborted) return;
+
         this.endIndex = endIndex;
         const value = this.getSlice(start, endIndex);
+        const doctype =
+            this.htmlMode && value.substr(0, 7).toLowerCase() === "doctype"
+                ? parseDoctype(value, (code, offset) =>
+                      this.onparseerror(code, start + offset, start + offset),
+                  )
+                : null;
+
+        if (this.htmlMode && !doctype) {
+            // Anything but a doctype is treated as a bogus comment.
+            this.onparseerror(
+                ParseErrorCode.IncorrectlyOpenedComment,
+                this.startIndex,
+                endIndex,
+            );
+        }
 
-        if (this.cbs.onprocessinginstruction) {
+        if (this.treeBuilder) {
             const name = this.getInstructionName(value);
-            this.cbs.onprocessinginstruction(`!${name}`, `!${value}`);
+            const node = this.createInstructionNode(`!${name}`, `!${value}`);
+
+            if (doctype) {
+                this.processToken({ type: TokenType.Doctype, node, doctype });
+            } else {
+                this.processToken({ type: TokenType.Comment, node });
+            }
+        } else {
+            if (this.cbs.onprocessinginstruction) {
+                const name = this.getInstructionName(value);
+                this.cbs.onprocessinginstruction(`!${name}`, `!${value}`);
+            }
+
+            if (doctype) {
+                // Only a doctype before any content determines the mode.
+                if (this.doctype === undefined) this.doctype = doctype;
+                this.emitDoctype(doctype);
+            } else if (!this.htmlMode && value.startsWith("DOCTYPE")) {
+                this.processInternalSubset(value, start);
+            }
         }
 
         // Set `startIndex` for next node
         this.startIndex = endIndex + 1;
     }
 
+    /**
+     * Reports the declarations of a doctype's internal subset, and declares
+     * its entities.
+     */
+    private processInternalSubset(value: string, start: number) {
+        const declarations = parseInternalSubset(value, (code, offset) =>
+            this.onparseerror(code, start + offset, start + offset),
+        );
+
+        for (const declaration of declarations) {
+            switch (declaration.type) {
+                case "element": {
+                    this.cbs.onelementdeclaration?.(
+                        declaration.name,
+                        declaration.contentModel,
+                    );
+                    break;
+                }
+                case "attribute": {
+                    this.cbs.onattributedeclaration?.(
+                        declaration.elementName,
+                        declaration.name,
+                        declaration.attributeType,
+                        declaration.mode,
+                        declaration.defaultValue,
+                    );
+                    break;
+                }
+                case "entity": {
+                    if (
+                        !declaration.isParameterEntity &&
+                        declaration.value !== null
+                    ) {
+                        this.tokenizer.declareEntity(
+                            declaration.name,
+                            declaration.value,
+                        );
+                    }
+                    this.cbs.onentitydeclaration?.(
+                        declaration.name,
+                        declaration.value,
+                        declaration.publicId,
+                        declaration.systemId,
+                        declaration.isParameterEntity,
+                    );
+                    break;
+                }
+            }
+        }
+    }
+
+    private emitDoctype(doctype: Doctype) {
+        this.cbs.ondoctype?.(
+            doctype.name,
+            doctype.publicId,
+            doctype.systemId,
+            doctype.forceQuirks,
+        );
+    }
+
     /** @internal */
     onprocessinginstruction(start: number, endIndex: number): void {
+        if (this.aborted) return;
+
         this.endIndex = endIndex;
         const value = this.getSlice(start, endIndex);
 
-        if (this.cbs.onprocessinginstruction) {
+        if (this.treeBuilder) {
+            const name = this.getInstructionName(value);
+            this.processToken({
+                type: TokenType.Comment,
+                node: this.createInstructionNode(`?${name}`, `?${value}`),
+            });
+        } else {
             const name = this.getInstructionName(value);
-            this.cbs.onprocessinginstruction(`?${name}`, `?${value}`);
+            this.emitProcessingInstruction(`?${name}`, `?${value}`);
         }
 
         // Set `startIndex` for next node
         this.startIndex = endIndex + 1;
     }
 
+    /**
+     * Emits a processing instruction or declaration. Processing instructions
+     * get their pseudo-attributes, and XML declarations are reported.
+     */
+    private emitProcessingInstruction(name: string, data: string) {
+        if (!name.startsWith("?")) {
+            this.cbs.onprocessinginstruction?.(name, data);
+            return;
+        }
+
+        // The contents might end with the `?` of the closing `?>`.
+        const contents = data.slice(name.length).replace(/\?$/, "");
+        const attributes = parsePseudoAttributes(contents);
+        this.cbs.onprocessinginstruction?.(name, data, attributes);
+
+        if (name === "?xml") {
+            const { version, encoding, standalone } = (attributes ??
+                {}) as Partial<Record<string, string>>;
+
+            this.cbs.onxmldeclaration?.(
+                version ?? null,
+                encoding ?? null,
+                standalone === "yes"
+                    ? true
+                    : standalone === "no"
+                      ? false
+                      : null,
+            );
+        }
+    }
+
+    private createInstructionNode(
+        name: string,
+        data: string,
+    ): TreeProcessingInstruction {
+        return {
+            type: "processinginstruction",
+            name,
+            data,
+            parent: null,
+            startIndex: this.startIndex,
+            endIndex: this.endIndex,
+        };
+    }
+
+    private emitComment(data: string) {
+        if (this.treeBuilder) {
+            this.processToken({
+                type: TokenType.Comment,
+                node: {
+                    type: "comment",
+                    data,
+                    parent: null,
+                    startIndex: this.startIndex,
+                    endIndex: this.endIndex,
+                },
+            });
+        } else {
+            this.cbs.oncomment?.(data);
+            this.cbs.oncommentend?.();
+        }
+    }
+
     /** @internal */
     oncomment(start: number, endIndex: number, offset: number): void {
+        if (this.aborted) return;
+
         this.endIndex = endIndex;
 
-        this.cbs.oncomment?.(this.getSlice(start, endIndex - offset));
-        this.cbs.oncommentend?.();
+        this.emitComment(this.getSlice(start, endIndex - offset));
 
         // Set `startIndex` for next node
         this.startIndex = endIndex + 1;
@@ -501,34 +1943,332 @@ export class Parser implements Callbacks {
 
     /** @internal */
     oncdata(start: number, endIndex: number, offset: number): void {
+        if (this.aborted) return;
+
         this.endIndex = endIndex;
         const value = this.getSlice(start, endIndex - offset);
 
         if (!this.htmlMode || this.options.recognizeCDATA) {
-            this.cbs.oncdatastart?.();
-            this.cbs.ontext?.(value);
-            this.cbs.oncdataend?.();
+            if (this.countText(value.length) > 0) {
+                this.exceedsLimit(
+                    "maxTextLength",
+                    this.textLength,
+                    this.startIndex,
+                );
+                return;
+            } else if (this.treeBuilder) {
+                this.processToken({
+                    type: TokenType.Comment,
+                    node: {
+                        type: "cdata",
+                        data: value,
+                        parent: null,
+                        startIndex: this.startIndex,
+                        endIndex: this.endIndex,
+                    },
+                });
+            } else {
+                this.cbs.oncdatastart?.();
+                this.emitText(value, value);
+                this.cbs.oncdataend?.();
+            }
         } else {
-            this.cbs.oncomment?.(`[CDATA[${value}]]`);
-            this.cbs.oncommentend?.();
+            this.emitComment(`[CDATA[${value}]]`);
         }
 
         // Set `startIndex` for next node
         this.startIndex = endIndex + 1;
     }
 
+    /** @internal */
+    ontrailingtagname(
+        start: number,
+        endIndex: number,
+        isClosing: boolean,
+    ): void {
+        if (this.aborted) return;
+
+        if (this.treeBuilder) return;
+
+        let name = this.getSlice(start, endIndex);
+
+        if (this.lowerCaseTagNames) {
+            name = name.toLowerCase();
+        }
+
+        this.endIndex = endIndex - 1;
+        this.cbs.onignoredtag?.(name, "unterminated", isClosing);
+    }
+
+    /** @internal */
+    onparseerror(code: ParseErrorCode, start: number, endIndex: number): void {
+        if (this.aborted) return;
+
+        /*
+         * Errors can be reported between events, eg. for entities in text, so
+         * the location is set to the error and restored for the next event.
+         */
+        const previousStart = this.startIndex;
+        const previousEnd = this.endIndex;
+        this.startIndex = start;
+        this.endIndex = endIndex;
+
+        this.cbs.onparseerror?.(code, start, endIndex);
+
+        if (this.strict) {
+            this.reportError(code, start, endIndex);
+        }
+
+        this.startIndex = previousStart;
+        this.endIndex = previousEnd;
+    }
+
+    /** Reports invalid names if the `strict` option is set. */
+    private checkName(name: string, start: number, endIndex: number) {
+        if (!isXmlName(name)) {
+            this.reportError(
+                WellFormednessErrorCode.InvalidName,
+                start,
+                endIndex - 1,
+            );
+        }
+    }
+
+    /**
+     * Passes a well-formedness error to `onerror`, or throws it if the
+     * handler doesn't handle errors.
+     */
+    private reportError(
+        code: WellFormednessErrorCode | ParseErrorCode,
+        start: number,
+        endIndex: number,
+    ) {
+        const error = new WellFormednessError(
+            code,
+            start,
+            endIndex,
+            this.tokenizer.getPosition(start),
+            this.tokenizer.getPosition(endIndex),
+        );
+
+        if (!this.cbs.onerror) throw error;
+        this.cbs.onerror(error);
+    }
+
+    /**
+     * Aborts parsing if a value exceeds the maximum set by one of the
+     * resource limit options.
+     *
+     * @param limit The option to check.
+     * @param value The value to check against the option.
+     * @param start The index of the input that is checked.
+     * @returns Whether parsing was aborted.
+     */
+    private exceedsLimit(
+        limit: ResourceLimit,
+        value: number,
+        start: number,
+    ): boolean {
+        const maximum = this.options[limit];
+        if (maximum === undefined || value <= maximum) return false;
+
+        this.aborted = true;
+        this.tokenizer.pause();
+
+        const error = new ResourceLimitError(limit, maximum, start);
+        if (!this.cbs.onerror) throw error;
+        this.cbs.onerror(error);
+        return true;
+    }
+
     /** @internal */
     onend(): void {
-        if (this.cbs.onclosetag) {
+        if (this.aborted) return;
+
+        if (this.treeBuilder) {
+            this.treeBuilder.end(this.startIndex);
+            this.emitTree(this.treeBuilder.nodes);
+        } else {
+            // A start tag that was cut off after its name.
+            if (this.tagname !== "") {
+                this.startIndex = this.openTagStart;
+                this.endIndex = this.inputLength - 1;
+                this.cbs.onignoredtag?.(this.tagname, "unterminated", false);
+                this.startIndex = this.inputLength;
+
+                // The tag was put on the stack, but isn't closed.
+                if (!this.isTagIgnored && !this.isVoidElement(this.tagname)) {
+                    if (this.stack.length === this.getStackBoundary()) {
+                        this.templateBoundaries.pop();
+                    }
+                    this.stack.shift();
+                    if (this.xmlNamespaces) this.namespaceStack.shift();
+                }
+            }
+
             // Set the end index for all remaining tags
             this.endIndex = this.startIndex;
-            for (let index = 0; index < this.stack.length; index++) {
-                this.cbs.onclosetag(this.stack[index], true);
+
+            if (this.structure !== null && this.structure !== "inBody") {
+                this.openImpliedStructure(null);
+                // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+                if (this.aborted) return;
+            }
+
+            if (this.strict && !this.hasRootElement) {
+                this.reportError(
+                    WellFormednessErrorCode.MissingRootElement,
+                    this.startIndex,
+                    this.startIndex,
+                );
+            }
+
+            while (this.stack.length > 0) {
+                if (this.strict) {
+                    this.reportError(
+                        WellFormednessErrorCode.UnclosedElement,
+                        this.startIndex,
+                        this.startIndex,
+                    );
+                }
+                this.popElement(true);
             }
         }
         this.cbs.onend?.();
     }
 
+    /** Elements in HTML documents are in a namespace, but have no prefix. */
+    private getHtmlName(name: string, namespace: Namespace): QualifiedName {
+        let names = this.htmlNames.get(namespace);
+        if (!names) {
+            names = new Map();
+            this.htmlNames.set(namespace, names);
+        }
+
+        let qualifiedName = names.get(name);
+        if (!qualifiedName) {
+            qualifiedName = Object.freeze({
+                namespace,
+                prefix: null,
+                localName: name,
+            });
+            names.set(name, qualifiedName);
+        }
+
+        return qualifiedName;
+    }
+
+    /**
+     * Emits events for the nodes constructed by the tree builder. Open
+     * elements are kept on a stack instead of recursing, as deeply nested
+     * documents would exceed the call stack.
+     */
+    private emitTree(nodes: TreeNode[]) {
+        const stack: { element: TreeElement | null; index: number }[] = [
+            { element: null, index: 0 },
+        ];
+
+        while (stack.length > 0) {
+            const parent = stack[stack.length - 1];
+            const children = parent.element?.children ?? nodes;
+
+            if (parent.index === children.length) {
+                stack.pop();
+                if (parent.element) this.emitTreeEnd(parent.element);
+                continue;
+            }
+
+            const node = children[parent.index++];
+            this.startIndex = node.startIndex;
+            this.endIndex = node.endIndex;
+
+            switch (node.type) {
+                case "element": {
+                    this.cbs.onopentagname?.(node.name);
+                    for (const {
+                        name,
+                        value,
+                        quote,
+                        rawValue,
+                    } of node.attributes) {
+                        this.emitAttribute(name, value, quote, rawValue);
+                    }
+                    const attributes = this.passAttributes
+                        ? node.attributes
+                        : undefined;
+                    const qualifiedName = this.getHtmlName(
+                        node.name,
+                        node.namespace,
+                    );
+
+                    if (this.syntaxDetails && node.isSelfClosing) {
+                        this.cbs.onopentag?.(
+                            node.name,
+                            node.attribs,
+                            node.isImplied,
+                            attributes,
+                            qualifiedName,
+                            true,
+                        );
+                    } else {
+                        this.cbs.onopentag?.(
+                            node.name,
+                            node.attribs,
+                            node.isImplied,
+                            attributes,
+                            qualifiedName,
+                        );
+                    }
+
+                    stack.push({ element: node, index: 0 });
+                    break;
+                }
+                case "text": {
+                    this.cbs.ontext?.(node.data);
+                    break;
+                }
+                case "comment": {
+                    this.cbs.oncomment?.(node.data);
+                    this.cbs.oncommentend?.();
+                    break;
+                }
+                case "cdata": {
+                    this.cbs.oncdatastart?.();
+                    this.cbs.ontext?.(node.data);
+                    this.cbs.oncdataend?.();
+                    break;
+                }
+                case "processinginstruction": {
+                    this.emitProcessingInstruction(node.name, node.data);
+                    if (node.doctype) this.emitDoctype(node.doctype);
+                    break;
+                }
+            }
+        }
+    }
+
+    /** Emits the end tag of an element constructed by the tree builder. */
+    private emitTreeEnd(node: TreeElement) {
+        this.startIndex = node.closeStartIndex;
+        this.endIndex = node.closeEndIndex;
+
+        // Elements closed by their own start tag.
+        if (
+            this.syntaxDetails &&
+            node.isSelfClosing &&
+            node.closeStartIndex === node.startIndex
+        ) {
+            this.cbs.onclosetag?.(
+                node.name,
+                node.isCloseImplied,
+                undefined,
+                true,
+            );
+        } else {
+            this.cbs.onclosetag?.(node.name, node.isCloseImplied);
+        }
+    }
+
     /**
      * Resets the parser to a blank state, ready to parse a new HTML document
      */
@@ -539,15 +2279,29 @@ export class Parser implements Callbacks {
         this.attribname = "";
         this.attribs = null;
         this.stack.length = 0;
+        this.templateBoundaries.length = 0;
+        this.namespaceStack.length = 0;
+        this.treeBuilder?.reset();
+        this.htmlNames.clear();
+        this.doctype = undefined;
+        this.hasRootElement = false;
+        this.structure = this.impliedStructure ? "initial" : null;
+        this.isTagIgnored = false;
+        this.isSelfClosing = false;
+        this.aborted = false;
+        this.inputLength = 0;
+        this.textLength = 0;
+        this.textEndIndex = 0;
         this.startIndex = 0;
         this.endIndex = 0;
         this.cbs.onparserinit?.(this);
         this.buffers.length = 0;
         this.foreignContext.length = 0;
-        this.foreignContext.unshift(!this.htmlMode);
+        this.foreignContext.unshift(this.htmlMode ? Namespace.HTML : null);
         this.bufferOffset = 0;
         this.writeIndex = 0;
         this.ended = false;
+        this.startFragment();
     }
 
     /**
@@ -591,11 +2345,24 @@ export class Parser implements Callbacks {
      * @param chunk Chunk to parse.
      */
     public write(chunk: string): void {
+        if (this.aborted) return;
         if (this.ended) {
             this.cbs.onerror?.(new Error(".write() after done!"));
             return;
         }
 
+        if (
+            this.hasLimits &&
+            this.exceedsLimit(
+                "maxInputLength",
+                this.inputLength + chunk.length,
+                this.inputLength,
+            )
+        ) {
+            return;
+        }
+        this.inputLength += chunk.length;
+
         this.buffers.push(chunk);
         if (this.tokenizer.running) {
             this.tokenizer.write(chunk);
@@ -609,6 +2376,7 @@ export class Parser implements Callbacks {
      * @param chunk Optional final chunk to parse.
      */
     public end(chunk?: string): void {
+        if (this.aborted) return;
         if (this.ended) {
             this.cbs.onerror?.(new Error(".end() after done!"));
             return;
@@ -630,6 +2398,7 @@ export class Parser implements Callbacks {
      * Resumes parsing after `pause` was called.
      */
     public resume(): void {
+        if (this.aborted) return;
         this.tokenizer.resume();
 
         while (
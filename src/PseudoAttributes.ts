@@ -0,0 +1,38 @@
+import { decodeXML } from "entities/dist/decode.js";
+
+/** Matches a single pseudo-attribute, including leading whitespace. */
+const rePseudoAttribute = /\s*([^\s=]+)\s*=\s*(["'])(.*?)\2/sy;
+
+/**
+ * Parses the pseudo-attributes of a processing instruction, such as
+ * `href="style.css" type="text/css"`. References in values are decoded.
+ *
+ * @param data The contents of the processing instruction, after its target.
+ * @returns The pseudo-attributes, or `null` if the data doesn't consist of
+ * pseudo-attributes. If an attribute is repeated, the first value is used.
+ * @see https://www.w3.org/TR/xml-stylesheet/#the-xml-stylesheet-processing-instruction
+ */
+export function parsePseudoAttributes(
+    data: string,
+): Record<string, string> | null {
+    // Names like `__proto__` are stored as regular properties.
+    const attributes = Object.create(null) as Record<string, string>;
+    rePseudoAttribute.lastIndex = 0;
+
+    while (rePseudoAttribute.lastIndex < data.length) {
+        const { lastIndex } = rePseudoAttribute;
+        const match = rePseudoAttribute.exec(data);
+
+        if (!match) {
+            // Only whitespace may follow the last attribute.
+            return data.slice(lastIndex).trim() ? null : attributes;
+        }
+
+        const [, name, , value] = match;
+        if (!Object.prototype.hasOwnProperty.call(attributes, name)) {
+            attributes[name] = decodeXML(value);
+        }
+    }
+
+    return attributes;
+}
@@ -0,0 +1,34 @@
+/** The options of the parser that limit the resources used for a document. */
+export const resourceLimits = [
+    "maxDepth",
+    "maxAttributes",
+    "maxAttributeValueLength",
+    "maxTagNameLength",
+    "maxTextLength",
+    "maxInputLength",
+] as const;
+
+/** One of the options of the parser listed in `resourceLimits`. */
+export type ResourceLimit = (typeof resourceLimits)[number];
+
+/**
+ * An error for input exceeding one of the resource limits of the parser.
+ * Passed to `Handler.onerror`, or thrown if the handler doesn't implement
+ * `onerror`. The parser ignores all further input afterwards.
+ */
+export class ResourceLimitError extends Error {
+    override name = "ResourceLimitError";
+
+    /**
+     * @param limit The option that was exceeded.
+     * @param maximum The value of the option.
+     * @param startIndex The index of the input that exceeded the limit.
+     */
+    constructor(
+        public readonly limit: ResourceLimit,
+        public readonly maximum: number,
+        public readonly startIndex: number,
+    ) {
+        super(`${limit} of ${maximum} exceeded at index ${startIndex}`);
+    }
+}
@@ -0,0 +1,163 @@
+import { type TextElementKind, defaultTextElements } from "./Tokenizer.js";
+
+/**
+ * Describes how the parser treats HTML elements. Names are lowercase. Only
+ * used in HTML mode, and ignored with the `treeConstruction` option, apart
+ * from `textElements`.
+ */
+export interface Schema {
+    /** Elements that can't have children, eg. `<br>`. */
+    voidElements: ReadonlySet<string>;
+    /**
+     * For an element, the open elements that are closed implicitly by its
+     * start tag, eg. `<p>` for a `<div>`.
+     */
+    openImpliesClose: ReadonlyMap<string, ReadonlySet<string>>;
+    /** The elements whose contents are consumed as text, and how. */
+    textElements: ReadonlyMap<string, TextElementKind>;
+    /**
+     * The roots of foreign content, where self-closing tags are recognized,
+     * eg. `<svg>`.
+     */
+    foreignContextElements: ReadonlySet<string>;
+    /** Elements in foreign content that contain HTML again. */
+    htmlIntegrationElements: ReadonlySet<string>;
+    /**
+     * Elements that belong in `<head>`, if it wasn't closed yet. Used by the
+     * `impliedStructure` option.
+     */
+    headElements: ReadonlySet<string>;
+}
+
+const formTags = new Set([
+    "input",
+    "option",
+    "optgroup",
+    "select",
+    "button",
+    "datalist",
+    "textarea",
+]);
+const pTag = new Set(["p"]);
+const tableSectionTags = new Set(["thead", "tbody"]);
+const ddtTags = new Set(["dd", "dt"]);
+const rtpTags = new Set(["rt", "rp"]);
+
+const openImpliesClose = new Map<string, ReadonlySet<string>>([
+    ["tr", new Set(["tr", "th", "td"])],
+    ["th", new Set(["th"])],
+    ["td", new Set(["thead", "th", "td"])],
+    ["body", new Set(["head", "link", "script"])],
+    ["li", new Set(["li"])],
+    ["p", pTag],
+    ["h1", pTag],
+    ["h2", pTag],
+    ["h3", pTag],
+    ["h4", pTag],
+    ["h5", pTag],
+    ["h6", pTag],
+    ["select", formTags],
+    ["input", formTags],
+    ["output", formTags],
+    ["button", formTags],
+    ["datalist", formTags],
+    ["textarea", formTags],
+    ["option", new Set(["option"])],
+    ["optgroup", new Set(["optgroup", "option"])],
+    ["dd", ddtTags],
+    ["dt", ddtTags],
+    ["address", pTag],
+    ["article", pTag],
+    ["aside", pTag],
+    ["blockquote", pTag],
+    ["details", pTag],
+    ["div", pTag],
+    ["dl", pTag],
+    ["fieldset", pTag],
+    ["figcaption", pTag],
+    ["figure", pTag],
+    ["footer", pTag],
+    ["form", pTag],
+    ["header", pTag],
+    ["hr", pTag],
+    ["main", pTag],
+    ["nav", pTag],
+    ["ol", pTag],
+    ["pre", pTag],
+    ["section", pTag],
+    ["table", pTag],
+    ["ul", pTag],
+    ["rt", rtpTags],
+    ["rp", rtpTags],
+    ["tbody", tableSectionTags],
+    ["tfoot", tableSectionTags],
+]);
+
+const voidElements = new Set([
+    "area",
+    "base",
+    "basefont",
+    "br",
+    "col",
+    "command",
+    "embed",
+    "frame",
+    "hr",
+    "img",
+    "input",
+    "isindex",
+    "keygen",
+    "link",
+    "meta",
+    "param",
+    "source",
+    "track",
+    "wbr",
+]);
+
+const foreignContextElements = new Set(["math", "svg"]);
+
+const htmlIntegrationElements = new Set([
+    "mi",
+    "mo",
+    "mn",
+    "ms",
+    "mtext",
+    "annotation-xml",
+    "foreignobject",
+    "desc",
+    "title",
+]);
+
+const headElements = new Set([
+    "base",
+    "basefont",
+    "bgsound",
+    "link",
+    "meta",
+    "noframes",
+    "noscript",
+    "script",
+    "style",
+    "template",
+    "title",
+]);
+
+/**
+ * The schema of HTML. Can be extended for custom elements:
+ *
+ * ```ts
+ * const schema: Schema = {
+ *     ...defaultSchema,
+ *     voidElements: new Set([...defaultSchema.voidElements, "x-icon"]),
+ * };
+ * ```
+ */
+export const defaultSchema: Schema = {
+    voidElements,
+    openImpliesClose,
+    textElements: defaultTextElements,
+    foreignContextElements,
+    htmlIntegrationElements,
+    headElements,
+};
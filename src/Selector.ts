@@ -0,0 +1,319 @@
+/**
+ * A subset of CSS selectors that can be matched while a document is parsed:
+ * type, class, ID and attribute selectors, `:nth-child()`, and the
+ * descendant, child and sibling combinators.
+ */
+
+type AttributeOperator = "=" | "~=" | "|=" | "^=" | "$=" | "*=";
+
+interface AttributeCondition {
+    type: "attribute";
+    /** The lowercased name of the attribute. */
+    name: string;
+    /** The operator, or `null` if the attribute only has to exist. */
+    operator: AttributeOperator | null;
+    value: string;
+    ignoreCase: boolean;
+}
+
+/** Matches the elements at the positions `a * n + b`, for any `n >= 0`. */
+interface NthChildCondition {
+    type: "nth-child";
+    a: number;
+    b: number;
+}
+
+interface CompoundSelector {
+    /** The lowercased name of the element, or `null` for any element. */
+    name: string | null;
+    conditions: (AttributeCondition | NthChildCondition)[];
+}
+
+type Combinator = " " | ">" | "+" | "~";
+
+/**
+ * The compound selectors of a selector like `article > h1`, from left to
+ * right. The combinator is the one before the compound selector.
+ */
+export type ComplexSelector = {
+    compound: CompoundSelector;
+    combinator: Combinator | null;
+}[];
+
+/** An element, as far as it is known while parsing. */
+export interface SelectorElement {
+    name: string;
+    attribs: Record<string, string>;
+    /** The position among the element children of the parent, from 1. */
+    index: number;
+    parent: SelectorElement | null;
+    /**
+     * The previous element sibling. Only needed for sibling combinators, and
+     * only kept as far back as they need.
+     */
+    previous: SelectorElement | null;
+}
+
+const reWhitespace = /\s*/y;
+const reName = /(?:[\w\u00A0-\uFFFF-]|\\.)+/y;
+/** Attribute names might have a prefix, eg. `xlink:href`. */
+const reAttributeName = /(?:[\w:\u00A0-\uFFFF-]|\\.)+/y;
+const reOperator = /[$*^|~]?=/y;
+/** Unquoted values are more lenient than in CSS, eg. `[property^=og:]`. */
+const reValue = /"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|(?:[^\s\\\]]|\\.)+/y;
+const reCombinator = /\s*([+>~])\s*|\s+(?=[^\s,])/y;
+const reNth =
+    /\s*(?:(odd)|(even)|([+-]?\d*)n(?:\s*([+-])\s*(\d+))?|([+-]?\d+))\s*\)/iy;
+
+function unescape(value: string): string {
+    return value.replace(/\\(.)/g, "$1");
+}
+
+/**
+ * Parses a selector list, like `a[href], article > h1`.
+ *
+ * @param selector The selector to parse.
+ * @throws {SyntaxError} If the selector is invalid or unsupported.
+ */
+export function parseSelector(selector: string): ComplexSelector[] {
+    const selectors: ComplexSelector[] = [];
+    let index = 0;
+
+    function match(re: RegExp): RegExpExecArray | null {
+        re.lastIndex = index;
+        const result = re.exec(selector);
+        if (result) index = re.lastIndex;
+        return result;
+    }
+
+    function fail(): never {
+        throw new SyntaxError(
+            `Unsupported selector at index ${index}: ${selector}`,
+        );
+    }
+
+    function parseAttribute(): AttributeCondition {
+        match(reWhitespace);
+        const name = match(reAttributeName) ?? fail();
+        match(reWhitespace);
+        const operator = match(reOperator);
+        let value = "";
+        let ignoreCase = false;
+
+        if (operator) {
+            match(reWhitespace);
+            const [raw] = match(reValue) ?? fail();
+            const isQuoted = raw.startsWith('"') || raw.startsWith("'");
+            value = unescape(isQuoted ? raw.slice(1, -1) : raw);
+            match(reWhitespace);
+            ignoreCase = match(/i\s*/iy) !== null;
+        }
+
+        if (selector.charAt(index++) !== "]") fail();
+
+        return {
+            type: "attribute",
+            name: unescape(name[0]).toLowerCase(),
+            operator: (operator?.[0] as AttributeOperator | undefined) ?? null,
+            value,
+            ignoreCase,
+        };
+    }
+
+    function parseNthChild(): NthChildCondition {
+        const [, odd, even, a, sign, b, only] = match(reNth) ?? fail();
+
+        if (odd) return { type: "nth-child", a: 2, b: 1 };
+        if (even) return { type: "nth-child", a: 2, b: 0 };
+        if (only) return { type: "nth-child", a: 0, b: Number(only) };
+
+        return {
+            type: "nth-child",
+            a: a === "" || a === "+" ? 1 : a === "-" ? -1 : Number(a),
+            b: b ? Number(sign + b) : 0,
+        };
+    }
+
+    function parseCompound(): CompoundSelector {
+        const compound: CompoundSelector = { name: null, conditions: [] };
+        const start = index;
+
+        if (selector.charAt(index) === "*") {
+            index++;
+        } else {
+            const name = match(reName);
+            if (name) compound.name = unescape(name[0]).toLowerCase();
+        }
+
+        for (;;) {
+            const char = selector.charAt(index);
+
+            if (char === "#" || char === ".") {
+                index++;
+                const name = match(reName) ?? fail();
+                compound.conditions.push({
+                    type: "attribute",
+                    name: char === "#" ? "id" : "class",
+                    operator: char === "#" ? "=" : "~=",
+                    value: unescape(name[0]),
+                    ignoreCase: false,
+                });
+            } else if (char === "[") {
+                index++;
+                compound.conditions.push(parseAttribute());
+            } else if (match(/:nth-child\(/iy)) {
+                compound.conditions.push(parseNthChild());
+            } else {
+                break;
+            }
+        }
+
+        if (index === start) fail();
+        return compound;
+    }
+
+    do {
+        match(reWhitespace);
+        const complex: ComplexSelector = [
+            { compound: parseCompound(), combinator: null },
+        ];
+
+        let combinator;
+        while ((combinator = match(reCombinator))) {
+            complex.push({
+                compound: parseCompound(),
+                combinator: (combinator[1] as Combinator | undefined) ?? " ",
+            });
+        }
+
+        selectors.push(complex);
+        match(reWhitespace);
+    } while (selector.charAt(index++) === ",");
+
+    if (index <= selector.length) fail();
+    return selectors;
+}
+
+/** Gets the value of an attribute, comparing names case-insensitively. */
+function getAttributeValue(
+    attribs: Record<string, string>,
+    name: string,
+): string | null {
+    for (const key of Object.keys(attribs)) {
+        if (key.toLowerCase() === name) return attribs[key];
+    }
+
+    return null;
+}
+
+function matchesValue(
+    { operator, value: expected, ignoreCase }: AttributeCondition,
+    actual: string,
+): boolean {
+    const value = ignoreCase ? actual.toLowerCase() : actual;
+    const wanted = ignoreCase ? expected.toLowerCase() : expected;
+
+    switch (operator) {
+        case null: {
+            return true;
+        }
+        case "=": {
+            return value === wanted;
+        }
+        case "~=": {
+            return wanted !== "" && value.split(/\s+/).includes(wanted);
+        }
+        case "|=": {
+            return value === wanted || value.startsWith(`${wanted}-`);
+        }
+        case "^=": {
+            return wanted !== "" && value.startsWith(wanted);
+        }
+        case "$=": {
+            return wanted !== "" && value.endsWith(wanted);
+        }
+        case "*=": {
+            return wanted !== "" && value.includes(wanted);
+        }
+    }
+}
+
+function matchesCompound(
+    { name, conditions }: CompoundSelector,
+    element: SelectorElement,
+): boolean {
+    if (name !== null && element.name.toLowerCase() !== name) return false;
+
+    return conditions.every((condition) => {
+        if (condition.type === "attribute") {
+            const value = getAttributeValue(element.attribs, condition.name);
+            return value !== null && matchesValue(condition, value);
+        }
+
+        const { a, b } = condition;
+        const offset = element.index - b;
+        return a === 0 ? offset === 0 : offset % a === 0 && offset / a >= 0;
+    });
+}
+
+function matchesFrom(
+    selector: ComplexSelector,
+    position: number,
+    element: SelectorElement,
+): boolean {
+    const { compound, combinator } = selector[position];
+
+    if (!matchesCompound(compound, element)) return false;
+
+    switch (combinator) {
+        case null: {
+            return true;
+        }
+        case ">": {
+            return (
+                element.parent !== null &&
+                matchesFrom(selector, position - 1, element.parent)
+            );
+        }
+        case "+": {
+            return (
+                element.previous !== null &&
+                matchesFrom(selector, position - 1, element.previous)
+            );
+        }
+        case " ":
+        case "~": {
+            const next = combinator === " " ? "parent" : "previous";
+            for (let node = element[next]; node; node = node[next]) {
+                if (matchesFrom(selector, position - 1, node)) return true;
+            }
+            return false;
+        }
+    }
+}
+
+/** Checks if an element matches a selector parsed with `parseSelector`. */
+export function matchesSelector(
+    selector: ComplexSelector,
+    element: SelectorElement,
+): boolean {
+    return matchesFrom(selector, selector.length - 1, element);
+}
+
+/**
+ * Gets the number of previous siblings of an element that a selector needs
+ * to know about: `Infinity` with the `~` combinator, and otherwise the length
+ * of the longest chain of `+` combinators.
+ */
+export function getSiblingDepth(selector: ComplexSelector): number {
+    let depth = 0;
+    let chain = 0;
+
+    for (const { combinator } of selector) {
+        if (combinator === "~") return Number.POSITIVE_INFINITY;
+        chain = combinator === "+" ? chain + 1 : 0;
+        depth = Math.max(depth, chain);
+    }
+
+    return depth;
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { Parser, SelectorHandler } from "./index.js";
+import type { Element } from "domhandler";
+import { getOuterHTML } from "domutils";
+
+const html = `<head><meta property="og:title" content=a><meta name=b></head>
+<article id=main class="post wide"><h1>Title</h1><p>Text <a href="/c">c</a></p><h1 lang=en-US>Other</h1></article>
+<ul><li>1</li><li>2</li><li>3</li><li>4</li></ul>`;
+
+function select(selector: string, data = html) {
+    const elements: string[] = [];
+    new Parser(
+        new SelectorHandler(selector, (element) =>
+            elements.push(getOuterHTML(element)),
+        ),
+    ).end(data);
+    return elements;
+}
+
+describe("SelectorHandler", () => {
+    it("should match type, class, ID and attribute selectors", () => {
+        expect(select("a[href]")).toEqual(['<a href="/c">c</a>']);
+        expect(select("meta[property^=og:]")).toEqual([
+            '<meta property="og:title" content="a">',
+        ]);
+        expect(select("#main.wide > h1[lang|=en]")).toEqual([
+            '<h1 lang="en-US">Other</h1>',
+        ]);
+        expect(select('[class~="WIDE" i] a')).toEqual(['<a href="/c">c</a>']);
+        expect(select("META[NAME$=b]")).toEqual(['<meta name="b">']);
+    });
+
+    it("should match combinators", () => {
+        expect(select("article > h1")).toEqual([
+            "<h1>Title</h1>",
+            '<h1 lang="en-US">Other</h1>',
+        ]);
+        expect(select("article a")).toEqual(['<a href="/c">c</a>']);
+        expect(select("h1 + p")).toEqual(['<p>Text <a href="/c">c</a></p>']);
+        expect(select("h1 ~ h1")).toEqual(['<h1 lang="en-US">Other</h1>']);
+        expect(select("head + article > a")).toEqual([]);
+    });
+
+    it("should match chains of sibling combinators", () => {
+        expect(select("li + li + li")).toEqual(["<li>3</li>", "<li>4</li>"]);
+        expect(select("li:nth-child(1) + li + li")).toEqual(["<li>3</li>"]);
+        expect(select("li:nth-child(1) ~ li + li")).toEqual([
+            "<li>3</li>",
+            "<li>4</li>",
+        ]);
+        expect(select("h1 + p, li + li + li + li")).toEqual([
+            '<p>Text <a href="/c">c</a></p>',
+            "<li>4</li>",
+        ]);
+    });
+
+    it("should match :nth-child", () => {
+        expect(select("li:nth-child(odd)")).toEqual([
+            "<li>1</li>",
+            "<li>3</li>",
+        ]);
+        expect(select("li:nth-child(-n + 2)")).toEqual([
+            "<li>1</li>",
+            "<li>2</li>",
+        ]);
+        expect(select("li:nth-child(4), li:nth-child(3n)")).toEqual([
+            "<li>3</li>",
+            "<li>4</li>",
+        ]);
+    });
+
+    it("should pass nested matches before the outer element", () => {
+        const elements: Element[] = [];
+        new Parser(
+            new SelectorHandler("p, a", (element) => elements.push(element)),
+        ).end(html);
+
+        expect(elements.map(({ name }) => name)).toEqual(["a", "p"]);
+        expect(elements[0].parent).toBe(elements[1]);
+    });
+
+    it("should add the positions of elements", () => {
+        const elements: Element[] = [];
+        new Parser(
+            new SelectorHandler("b", (b) => elements.push(b), {
+                withStartIndices: true,
+                withEndIndices: true,
+            }),
+        ).end("<a><b>c</b></a>");
+
+        expect(elements[0]).toMatchObject({ startIndex: 3, endIndex: 10 });
+    });
+
+    it("should throw for unsupported selectors", () => {
+        expect(() => select("a:hover")).toThrow(SyntaxError);
+        expect(() => select("a >")).toThrow(SyntaxError);
+        expect(() => select("")).toThrow(SyntaxError);
+    });
+});
@@ -0,0 +1,201 @@
+import type { DomHandlerOptions, Element } from "domhandler";
+import { DomHandler } from "./DomHandler.js";
+import type { Handler, Parser } from "./Parser.js";
+import {
+    type ComplexSelector,
+    type SelectorElement,
+    getSiblingDepth,
+    matchesSelector,
+    parseSelector,
+} from "./Selector.js";
+
+/** The element children of the document or an open element. */
+interface Children {
+    /** The number of element children so far. */
+    count: number;
+    last: SelectorElement | null;
+}
+
+interface OpenElement {
+    element: SelectorElement;
+    children: Children;
+}
+
+/** The events that are passed to the handler building the current match. */
+type ForwardedEvent =
+    | "onopentag"
+    | "onclosetag"
+    | "ontext"
+    | "oncomment"
+    | "oncommentend"
+    | "oncdatastart"
+    | "oncdataend"
+    | "onprocessinginstruction";
+
+type ForwardedData = {
+    [K in ForwardedEvent]: Parameters<Handler[K]>;
+};
+
+type ForwardedHandler = {
+    [K in ForwardedEvent]: (...data: ForwardedData[K]) => void;
+};
+
+/**
+ * A handler that finds the elements matching a CSS selector while the
+ * document is parsed, without building the whole document. Only a subset of
+ * selectors is supported: type, class, ID and attribute selectors (with the
+ * `=`, `~=`, `|=`, `^=`, `$=` and `*=` operators and the `i` flag),
+ * `:nth-child()`, and the descendant, child and sibling combinators. Element
+ * and attribute names are matched case-insensitively.
+ *
+ * Matching elements are built using `DomHandler`, and passed to the callback
+ * once they are closed. Elements within other matching elements are part of
+ * the outer element, and are passed to the callback before it.
+ */
+export class SelectorHandler implements Partial<Handler> {
+    private readonly selectors: ComplexSelector[];
+    /** The number of previous siblings that are kept for each element. */
+    private readonly siblingDepth: number;
+    private readonly stack: OpenElement[] = [];
+    private rootChildren: Children = { count: 0, last: null };
+    private parser: Parser | null = null;
+    /** The handler building the current match, if there is one. */
+    private handler: DomHandler | null = null;
+    /** The size of `stack` when the current match was opened. */
+    private handlerDepth = 0;
+    /** The elements on the stack that match the selector. */
+    private readonly matches = new Set<SelectorElement>();
+    /** The element that was closed last by `handler`. */
+    private closedElement: Element | null = null;
+
+    /**
+     * @param selector The selector to match, eg. `a[href], article > h1`.
+     * @param callback Called with each matching element.
+     * @param options Options for the `DomHandler` building the elements.
+     * @throws {SyntaxError} If the selector is invalid or unsupported.
+     */
+    constructor(
+        selector: string,
+        private readonly callback: (element: Element) => void,
+        private readonly options: DomHandlerOptions = {},
+    ) {
+        this.selectors = parseSelector(selector);
+        this.siblingDepth = Math.max(
+            ...this.selectors.map((selector) => getSiblingDepth(selector)),
+        );
+    }
+
+    onparserinit(parser: Parser): void {
+        this.parser = parser;
+    }
+
+    onreset(): void {
+        this.stack.length = 0;
+        this.rootChildren = { count: 0, last: null };
+        this.parser = null;
+        this.handler = null;
+        this.matches.clear();
+        this.closedElement = null;
+    }
+
+    onopentag(...data: Parameters<Handler["onopentag"]>): void {
+        const [name, attribs] = data;
+        const parent = this.stack[this.stack.length - 1] as
+            | OpenElement
+            | undefined;
+        const children = parent?.children ?? this.rootChildren;
+        const element: SelectorElement = {
+            name,
+            attribs,
+            index: ++children.count,
+            parent: parent?.element ?? null,
+            previous: this.siblingDepth > 0 ? children.last : null,
+        };
+
+        // Drop the siblings that are too far back to be matched.
+        if (this.siblingDepth < Number.POSITIVE_INFINITY) {
+            let last = element;
+            for (let depth = 0; depth < this.siblingDepth; depth++) {
+                if (!last.previous) break;
+                last = last.previous;
+            }
+            last.previous = null;
+        }
+
+        children.last = element;
+        this.stack.push({ element, children: { count: 0, last: null } });
+
+        if (
+            this.selectors.some((selector) =>
+                matchesSelector(selector, element),
+            )
+        ) {
+            this.matches.add(element);
+
+            if (!this.handler) {
+                this.handler = new DomHandler(
+                    undefined,
+                    this.options,
+                    (closed) => {
+                        this.closedElement = closed;
+                    },
+                );
+                if (this.parser) this.handler.onparserinit(this.parser);
+                this.handlerDepth = this.stack.length;
+            }
+        }
+
+        this.forward("onopentag", data);
+    }
+
+    onclosetag(...data: Parameters<Handler["onclosetag"]>): void {
+        const open = this.stack.pop();
+        if (!open) return;
+
+        this.forward("onclosetag", data);
+
+        if (this.matches.delete(open.element)) {
+            this.callback(this.closedElement!);
+        }
+
+        if (this.stack.length < this.handlerDepth) {
+            this.handler = null;
+            this.handlerDepth = 0;
+        }
+    }
+
+    ontext(...data: Parameters<Handler["ontext"]>): void {
+        this.forward("ontext", data);
+    }
+
+    oncomment(...data: Parameters<Handler["oncomment"]>): void {
+        this.forward("oncomment", data);
+    }
+
+    oncommentend(): void {
+        this.forward("oncommentend", []);
+    }
+
+    oncdatastart(): void {
+        this.forward("oncdatastart", []);
+    }
+
+    oncdataend(): void {
+        this.forward("oncdataend", []);
+    }
+
+    onprocessinginstruction(
+        ...data: Parameters<Handler["onprocessinginstruction"]>
+    ): void {
+        this.forward("onprocessinginstruction", data);
+    }
+
+    /** Passes an event to the handler building the current match. */
+    private forward<K extends ForwardedEvent>(
+        event: K,
+        data: ForwardedData[K],
+    ): void {
+        const target: ForwardedHandler | null = this.handler;
+        target?.[event](...data);
+    }
+}
@@ -71,6 +71,26 @@ describe("Tokenizer", () => {
                 tokenize("<textarea><div></div></textarea>"),
             ).toMatchSnapshot();
         });
+        it("for div inside xmp tag", () => {
+            expect(tokenize("<xmp><div>&amp;</div></xmp>")).toMatchSnapshot();
+        });
+        it("for div inside plaintext tag", () => {
+            expect(
+                tokenize("<plaintext><div></div></plaintext>"),
+            ).toMatchSnapshot();
+        });
+        it("for custom text elements", () => {
+            expect(
+                tokenize("<Code><div>&amp;</div></code><title><div></div>", {
+                    textElements: new Map([["code", "rcdata"]]),
+                }),
+            ).toMatchSnapshot();
+        });
+        it("not in XML mode", () => {
+            expect(
+                tokenize("<xmp><div></div></xmp>", { xmlMode: true }),
+            ).toMatchSnapshot();
+        });
     });
 
     describe("should correctly mark attributes", () => {
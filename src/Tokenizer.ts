@@ -1,11 +1,14 @@
 import {
     EntityDecoder,
     DecodingMode,
+    decodeCodePoint,
     htmlDecodeTree,
     xmlDecodeTree,
 } from "entities/dist/decode.js";
+import type { Schema } from "./Schema.js";
 
 const enum CharCodes {
+    Null = 0x0, // "\0"
     Tab = 0x9, // "\t"
     NewLine = 0xa, // "\n"
     FormFeed = 0xc, // "\f"
@@ -33,6 +36,8 @@ const enum CharCodes {
     LowerZ = 0x7a, // "z"
     LowerX = 0x78, // "x"
     OpeningSquareBracket = 0x5b, // "["
+    ClosingSquareBracket = 0x5d, // "]"
+    GraveAccent = 0x60, // "`"
 }
 
 /** All the states the tokenizer can be in. */
@@ -47,6 +52,7 @@ const enum State {
 
     // Attributes
     BeforeAttributeName,
+    AfterAttributeValueQuoted,
     InAttributeName,
     AfterAttributeName,
     BeforeAttributeValue,
@@ -57,6 +63,7 @@ const enum State {
     // Declarations
     BeforeDeclaration, // !
     InDeclaration,
+    InInternalSubset, // [ in a doctype
 
     // Processing instructions
     InProcessingInstruction, // ?
@@ -68,12 +75,12 @@ const enum State {
     InCommentLike,
 
     // Special tags
-    BeforeSpecialS, // Decide if we deal with `<script` or `<style`
-    BeforeSpecialT, // Decide if we deal with `<title` or `<textarea`
-    SpecialStartSequence,
+    SpecialStartSequence, // Decide if we deal with an element that contains text
     InSpecialTag,
+    InPlainText,
 
     InEntity,
+    InEntityName,
 }
 
 function isWhitespace(c: number): boolean {
@@ -104,10 +111,104 @@ export enum QuoteType {
     Double = 3,
 }
 
+/**
+ * Parse errors reported by the tokenizer and the parser.
+ *
+ * The values are the error codes used by the WHATWG HTML spec. Errors that
+ * only occur in document type declarations of XML documents use codes of
+ * their own.
+ *
+ * @see https://html.spec.whatwg.org/multipage/parsing.html#parse-errors
+ */
+export enum ParseErrorCode {
+    AbruptClosingOfEmptyComment = "abrupt-closing-of-empty-comment",
+    AbruptDoctypePublicIdentifier = "abrupt-doctype-public-identifier",
+    AbruptDoctypeSystemIdentifier = "abrupt-doctype-system-identifier",
+    AbsenceOfDigitsInNumericCharacterReference = "absence-of-digits-in-numeric-character-reference",
+    CharacterReferenceOutsideUnicodeRange = "character-reference-outside-unicode-range",
+    ControlCharacterReference = "control-character-reference",
+    DuplicateAttribute = "duplicate-attribute",
+    EntityExpansionLimitExceeded = "entity-expansion-limit-exceeded",
+    EndTagWithAttributes = "end-tag-with-attributes",
+    EndTagWithTrailingSolidus = "end-tag-with-trailing-solidus",
+    EofBeforeTagName = "eof-before-tag-name",
+    EofInCdata = "eof-in-cdata",
+    EofInComment = "eof-in-comment",
+    EofInTag = "eof-in-tag",
+    IncorrectlyOpenedComment = "incorrectly-opened-comment",
+    InvalidCharacterSequenceAfterDoctypeName = "invalid-character-sequence-after-doctype-name",
+    InvalidFirstCharacterOfTagName = "invalid-first-character-of-tag-name",
+    InvalidMarkupDeclaration = "invalid-markup-declaration",
+    MissingAttributeValue = "missing-attribute-value",
+    MissingDoctypeName = "missing-doctype-name",
+    MissingDoctypePublicIdentifier = "missing-doctype-public-identifier",
+    MissingDoctypeSystemIdentifier = "missing-doctype-system-identifier",
+    MissingEndTagName = "missing-end-tag-name",
+    MissingQuoteBeforeDoctypePublicIdentifier = "missing-quote-before-doctype-public-identifier",
+    MissingQuoteBeforeDoctypeSystemIdentifier = "missing-quote-before-doctype-system-identifier",
+    MissingSemicolonAfterCharacterReference = "missing-semicolon-after-character-reference",
+    MissingWhitespaceAfterDoctypePublicKeyword = "missing-whitespace-after-doctype-public-keyword",
+    MissingWhitespaceAfterDoctypeSystemKeyword = "missing-whitespace-after-doctype-system-keyword",
+    MissingWhitespaceBeforeDoctypeName = "missing-whitespace-before-doctype-name",
+    MissingWhitespaceBetweenAttributes = "missing-whitespace-between-attributes",
+    MissingWhitespaceBetweenDoctypePublicAndSystemIdentifiers = "missing-whitespace-between-doctype-public-and-system-identifiers",
+    NonVoidHtmlElementStartTagWithTrailingSolidus = "non-void-html-element-start-tag-with-trailing-solidus",
+    NoncharacterCharacterReference = "noncharacter-character-reference",
+    NullCharacterReference = "null-character-reference",
+    RecursiveEntityReference = "recursive-entity-reference",
+    SurrogateCharacterReference = "surrogate-character-reference",
+    UnknownNamedCharacterReference = "unknown-named-character-reference",
+    UnexpectedCharacterAfterDoctypeSystemIdentifier = "unexpected-character-after-doctype-system-identifier",
+    UnexpectedCharacterInAttributeName = "unexpected-character-in-attribute-name",
+    UnexpectedCharacterInUnquotedAttributeValue = "unexpected-character-in-unquoted-attribute-value",
+    UnexpectedEqualsSignBeforeAttributeName = "unexpected-equals-sign-before-attribute-name",
+    UnexpectedNullCharacter = "unexpected-null-character",
+    UnexpectedQuestionMarkInsteadOfTagName = "unexpected-question-mark-instead-of-tag-name",
+    UnexpectedSolidusInTag = "unexpected-solidus-in-tag",
+}
+
+/**
+ * Determines the error code for a numeric character reference, if any.
+ *
+ * @see https://html.spec.whatwg.org/multipage/parsing.html#numeric-character-reference-end-state
+ */
+function getNumericCharacterReferenceError(
+    code: number,
+): ParseErrorCode | null {
+    if (code === 0) return ParseErrorCode.NullCharacterReference;
+    if (code > 0x10_ff_ff) {
+        return ParseErrorCode.CharacterReferenceOutsideUnicodeRange;
+    }
+    if (code >= 0xd8_00 && code <= 0xdf_ff) {
+        return ParseErrorCode.SurrogateCharacterReference;
+    }
+    if ((code >= 0xfd_d0 && code <= 0xfd_ef) || (code & 0xff_fe) === 0xff_fe) {
+        return ParseErrorCode.NoncharacterCharacterReference;
+    }
+    if (
+        code === CharCodes.CarriageReturn ||
+        ((code <= 0x1f || (code >= 0x7f && code <= 0x9f)) &&
+            !isWhitespace(code))
+    ) {
+        return ParseErrorCode.ControlCharacterReference;
+    }
+    return null;
+}
+
+/** A position in the source, as reported by the tokenizer. */
+export interface SourcePosition {
+    /** One-based line number. */
+    line: number;
+    /** One-based column number. */
+    column: number;
+    /** Zero-based character offset. */
+    offset: number;
+}
+
 export interface Callbacks {
     onattribdata(start: number, endIndex: number): void;
-    onattribentity(codepoint: number): void;
-    onattribend(quote: QuoteType, endIndex: number): void;
+    onattribentity(codepoint: number, start: number, endIndex: number): void;
+    onattribend(quote: QuoteType, endIndex: number, valueStart: number): void;
     onattribname(start: number, endIndex: number): void;
     oncdata(start: number, endIndex: number, endOffset: number): void;
     onclosetag(start: number, endIndex: number): void;
@@ -116,30 +217,128 @@ export interface Callbacks {
     onend(): void;
     onopentagend(endIndex: number): void;
     onopentagname(start: number, endIndex: number): void;
+    /**
+     * Called for malformed input. Both indices are inclusive; errors at the
+     * end of the input are reported at the index after the last character.
+     */
+    onparseerror(code: ParseErrorCode, start: number, endIndex: number): void;
     onprocessinginstruction(start: number, endIndex: number): void;
     onselfclosingtag(endIndex: number): void;
+    /**
+     * Called if the input ends within the name of a start or end tag. The
+     * tag is dropped.
+     */
+    ontrailingtagname(
+        start: number,
+        endIndex: number,
+        isClosing: boolean,
+    ): void;
     ontext(start: number, endIndex: number): void;
     ontextentity(codepoint: number, endIndex: number): void;
+    /**
+     * Called with the expanded replacement text of an entity declared in
+     * the document type, if it is referenced in text.
+     */
+    ontextreplacement(data: string, endIndex: number): void;
 }
 
+/** The entities that are always defined in XML. */
+const xmlEntities = new Map([
+    ["amp", "&"],
+    ["apos", "'"],
+    ["gt", ">"],
+    ["lt", "<"],
+    ["quot", '"'],
+]);
+
+/** Matches references in the replacement text of declared entities. */
+const reReference = /&(?:#x([\dA-Fa-f]+)|#(\d+)|([^\s"#&';<>]+));/g;
+
 /**
  * Sequences used to match longer strings.
- *
- * We don't have `Script`, `Style`, or `Title` here. Instead, we re-use the *End
- * sequences with an increased offset.
  */
 const Sequences = {
     Cdata: new Uint8Array([0x43, 0x44, 0x41, 0x54, 0x41, 0x5b]), // CDATA[
     CdataEnd: new Uint8Array([0x5d, 0x5d, 0x3e]), // ]]>
     CommentEnd: new Uint8Array([0x2d, 0x2d, 0x3e]), // `-->`
-    ScriptEnd: new Uint8Array([0x3c, 0x2f, 0x73, 0x63, 0x72, 0x69, 0x70, 0x74]), // `</script`
-    StyleEnd: new Uint8Array([0x3c, 0x2f, 0x73, 0x74, 0x79, 0x6c, 0x65]), // `</style`
-    TitleEnd: new Uint8Array([0x3c, 0x2f, 0x74, 0x69, 0x74, 0x6c, 0x65]), // `</title`
-    TextareaEnd: new Uint8Array([
-        0x3c, 0x2f, 0x74, 0x65, 0x78, 0x74, 0x61, 0x72, 0x65, 0x61,
-    ]), // `</textarea`
+    CommentStart: new Uint8Array([0x3c, 0x21, 0x2d, 0x2d]), // `<!--`
+    /**
+     * An end tag that is never matched, as characters are lowercased by
+     * setting `0x20` before they are compared.
+     */
+    NoEndTag: new Uint8Array([0x3c, 0x2f, 0x00]), // `</`
 };
 
+/**
+ * How the contents of an element are consumed as text.
+ *
+ * - `rawtext`: Text up to the matching end tag, eg. in `<script>`.
+ * - `rcdata`: Like `rawtext`, but entities are decoded, eg. in `<title>`.
+ * - `plaintext`: All of the remaining input, as in `<plaintext>`.
+ */
+export type TextElementKind = "rawtext" | "rcdata" | "plaintext";
+
+/**
+ * The elements whose contents are consumed as text in HTML mode.
+ *
+ * `<noscript>` is only parsed as text if scripting is enabled, so it is not
+ * included here.
+ */
+export const defaultTextElements: ReadonlyMap<string, TextElementKind> =
+    new Map<string, TextElementKind>([
+        ["script", "rawtext"],
+        ["style", "rawtext"],
+        ["xmp", "rawtext"],
+        ["iframe", "rawtext"],
+        ["noembed", "rawtext"],
+        ["noframes", "rawtext"],
+        ["title", "rcdata"],
+        ["textarea", "rcdata"],
+        ["plaintext", "plaintext"],
+    ]);
+
+/** A node in the trie of text element names, keyed by lowercased characters. */
+interface TextElementNode {
+    kind: TextElementKind | null;
+    /** The end tag of the element, starting with `</`. */
+    endSequence: Uint8Array | null;
+    children: Map<number, TextElementNode>;
+}
+
+function buildTextElementTrie(
+    textElements: ReadonlyMap<string, TextElementKind>,
+): TextElementNode {
+    const root: TextElementNode = {
+        kind: null,
+        endSequence: null,
+        children: new Map(),
+    };
+
+    for (const [name, kind] of textElements) {
+        const endSequence = new Uint8Array(name.length + 2);
+        endSequence[0] = CharCodes.Lt;
+        endSequence[1] = CharCodes.Slash;
+
+        let node = root;
+        for (let index = 0; index < name.length; index++) {
+            const c = name.charCodeAt(index) | 0x20;
+            endSequence[index + 2] = c;
+
+            let child = node.children.get(c);
+            if (!child) {
+                child = { kind: null, endSequence: null, children: new Map() };
+                node.children.set(c, child);
+            }
+            node = child;
+        }
+
+        node.kind = kind;
+        node.endSequence = endSequence;
+    }
+
+    return root;
+}
+
 export default class Tokenizer {
     /** The current state the tokenizer is in. */
     private state = State.Text;
@@ -151,31 +350,100 @@ export default class Tokenizer {
     private index = 0;
     /** The start of the last entity. */
     private entityStart = 0;
+    /** Whether the decoder already reported an error for the last entity. */
+    private entityErrorReported = false;
+    /** The name of the current named entity in XML mode. */
+    private entityName = "";
+    /** The replacement texts of entities declared in the document type. */
+    private readonly declaredEntities = new Map<string, string>();
+    /** The number of characters produced by declared entities so far. */
+    private expandedLength = 0;
+    /** The error of the current entity expansion, if any. */
+    private expansionError: ParseErrorCode | null = null;
+    /** The quote of the quoted string in the current declaration, if any. */
+    private declarationQuote = 0;
+    /** Whether we are in a comment in the internal subset of a doctype. */
+    private inSubsetComment = false;
     /** Some behavior, eg. when decoding entities, is done while we are in another state. This keeps track of the other state type. */
     private baseState = State.Text;
     /** For special parsing behavior inside of script and style tags. */
     private isSpecial = false;
+    /** The kind of the current special tag. */
+    private textElementKind: TextElementKind = "rawtext";
+    /** The part of the text element trie matching the current tag name. */
+    private textElementNode: TextElementNode;
     /** Indicates whether the tokenizer has been paused. */
     public running = true;
     /** The offset of the current buffer. */
     private offset = 0;
+    /** The start of the current attribute value, excluding quotes. */
+    private valueStart = 0;
+    /** Whether content after the name of the current end tag was reported. */
+    private hasEndTagError = false;
+    /**
+     * Whether the buffer contains `NUL` characters. Buffers are searched once,
+     * so that characters only have to be checked if there are any.
+     */
+    private hasNullCharacters = false;
 
     private readonly xmlMode: boolean;
     private readonly decodeEntities: boolean;
+    private readonly maxEntityExpansionDepth: number;
+    private readonly maxEntityExpansionLength: number;
     private readonly entityDecoder: EntityDecoder;
+    /** The offsets at which lines start. Only set if locations are tracked. */
+    private readonly lineStarts: number[] | null;
+    /** The names of elements whose contents are consumed as text. */
+    private readonly textElements: TextElementNode;
 
     constructor(
         {
             xmlMode = false,
             decodeEntities = true,
-        }: { xmlMode?: boolean; decodeEntities?: boolean },
+            sourceCodeLocationInfo = false,
+            schema,
+            textElements = schema?.textElements ?? defaultTextElements,
+            maxEntityExpansionDepth = 16,
+            maxEntityExpansionLength = 1_000_000,
+        }: {
+            xmlMode?: boolean;
+            decodeEntities?: boolean;
+            sourceCodeLocationInfo?: boolean;
+            schema?: Schema;
+            textElements?: ReadonlyMap<string, TextElementKind>;
+            maxEntityExpansionDepth?: number;
+            maxEntityExpansionLength?: number;
+        },
         private readonly cbs: Callbacks,
     ) {
         this.xmlMode = xmlMode;
         this.decodeEntities = decodeEntities;
+        this.maxEntityExpansionDepth = maxEntityExpansionDepth;
+        this.maxEntityExpansionLength = maxEntityExpansionLength;
+        this.lineStarts = sourceCodeLocationInfo ? [0] : null;
+        this.textElements = buildTextElementTrie(textElements);
+        this.textElementNode = this.textElements;
         this.entityDecoder = new EntityDecoder(
             xmlMode ? xmlDecodeTree : htmlDecodeTree,
             (cp, consumed) => this.emitCodePoint(cp, consumed),
+            {
+                missingSemicolonAfterCharacterReference: () =>
+                    this.emitEntityError(
+                        ParseErrorCode.MissingSemicolonAfterCharacterReference,
+                    ),
+                absenceOfDigitsInNumericCharacterReference: (consumed) => {
+                    this.entityErrorReported = true;
+                    this.cbs.onparseerror(
+                        ParseErrorCode.AbsenceOfDigitsInNumericCharacterReference,
+                        this.entityStart,
+                        this.entityStart + consumed - 1,
+                    );
+                },
+                validateNumericCharacterReference: (code) => {
+                    const error = getNumericCharacterReferenceError(code);
+                    if (error) this.emitEntityError(error);
+                },
+            },
         );
     }
 
@@ -188,11 +456,60 @@ export default class Tokenizer {
         this.currentSequence = undefined!;
         this.running = true;
         this.offset = 0;
+        this.hasEndTagError = false;
+        this.hasNullCharacters = false;
+        this.declarationQuote = 0;
+        this.inSubsetComment = false;
+        this.declaredEntities.clear();
+        this.expandedLength = 0;
+        if (this.lineStarts) this.lineStarts.length = 1;
+    }
+
+    /**
+     * Declares an entity that can be referenced in the remainder of the
+     * document. Only has an effect in XML mode. If an entity is declared
+     * multiple times, the first declaration is used.
+     *
+     * @param name The name of the entity.
+     * @param replacementText The text the entity is replaced with. Can
+     * reference other entities.
+     */
+    public declareEntity(name: string, replacementText: string): void {
+        if (!this.declaredEntities.has(name)) {
+            this.declaredEntities.set(name, replacementText);
+        }
+    }
+
+    /**
+     * Consumes all following input as the content of the given element, as
+     * the HTML fragment parsing algorithm does for a context element: as
+     * there is no start tag, no end tag ends the content. Only has an effect
+     * for text elements, and not in XML mode.
+     *
+     * @param name The lowercase name of the element.
+     */
+    public startTextElement(name: string): void {
+        if (this.xmlMode) return;
+
+        let node: TextElementNode | undefined = this.textElements;
+        for (let index = 0; node && index < name.length; index++) {
+            node = node.children.get(name.charCodeAt(index));
+        }
+        if (!node?.kind || !node.endSequence) return;
+
+        this.isSpecial = true;
+        this.textElementKind = node.kind;
+        this.currentSequence = Sequences.NoEndTag;
+        this.sequenceIndex = 0;
+        this.state =
+            node.kind === "plaintext" ? State.InPlainText : State.InSpecialTag;
     }
 
     public write(chunk: string): void {
+        if (this.lineStarts) this.addLineStarts(this.lineStarts, chunk);
         this.offset += this.buffer.length;
         this.buffer = chunk;
+        this.hasNullCharacters = chunk.includes("\0");
         this.parse();
     }
 
@@ -211,6 +528,61 @@ export default class Tokenizer {
         }
     }
 
+    /**
+     * Converts an offset to a line and column.
+     *
+     * @param index The offset to convert. May refer to an already consumed chunk.
+     * @returns The position, or `null` if the `sourceCodeLocationInfo` option is not set.
+     */
+    public getPosition(index: number): SourcePosition | null {
+        const { lineStarts } = this;
+        if (!lineStarts) return null;
+
+        // Find the last line that starts at or before the index.
+        let low = 0;
+        let high = lineStarts.length - 1;
+        while (low < high) {
+            const mid = (low + high + 1) >>> 1;
+            if (lineStarts[mid] <= index) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+
+        return {
+            line: low + 1,
+            column: index - lineStarts[low] + 1,
+            offset: index,
+        };
+    }
+
+    /**
+     * Records where lines start in the next chunk. `\n`, `\r` and `\r\n`
+     * are all treated as a single line break.
+     */
+    private addLineStarts(lineStarts: number[], chunk: string): void {
+        const chunkOffset = this.offset + this.buffer.length;
+        // The previous chunk might have ended with a `\r`.
+        let previous = this.buffer.charCodeAt(this.buffer.length - 1);
+
+        for (let index = 0; index < chunk.length; index++) {
+            const c = chunk.charCodeAt(index);
+            if (
+                c === CharCodes.NewLine &&
+                previous === CharCodes.CarriageReturn
+            ) {
+                lineStarts[lineStarts.length - 1] += 1;
+            } else if (
+                c === CharCodes.NewLine ||
+                c === CharCodes.CarriageReturn
+            ) {
+                lineStarts.push(chunkOffset + index + 1);
+            }
+            previous = c;
+        }
+    }
+
     private stateText(c: number): void {
         if (
             c === CharCodes.Lt ||
@@ -229,26 +601,28 @@ export default class Tokenizer {
     private currentSequence: Uint8Array = undefined!;
     private sequenceIndex = 0;
     private stateSpecialStartSequence(c: number): void {
-        const isEnd = this.sequenceIndex === this.currentSequence.length;
-        const isMatch = isEnd
-            ? // If we are at the end of the sequence, make sure the tag name has ended
-              isEndOfTagSection(c)
-            : // Otherwise, do a case-insensitive comparison
-              (c | 0x20) === this.currentSequence[this.sequenceIndex];
-
-        if (!isMatch) {
-            this.isSpecial = false;
-        } else if (!isEnd) {
-            this.sequenceIndex++;
-            return;
+        if (isEndOfTagSection(c)) {
+            // If the tag name has ended, check if it belongs to a text element.
+            const { kind, endSequence } = this.textElementNode;
+            if (kind !== null && endSequence !== null) {
+                this.isSpecial = true;
+                this.textElementKind = kind;
+                this.currentSequence = endSequence;
+            }
+        } else {
+            // Otherwise, do a case-insensitive comparison
+            const next = this.textElementNode.children.get(c | 0x20);
+            if (next) {
+                this.textElementNode = next;
+                return;
+            }
         }
 
-        this.sequenceIndex = 0;
         this.state = State.InTagName;
         this.stateInTagName(c);
     }
 
-    /** Look for an end tag. For <title> tags, also decode entities. */
+    /** Look for an end tag. For RCDATA elements, also decode entities. */
     private stateInSpecialTag(c: number): void {
         if (this.sequenceIndex === this.currentSequence.length) {
             if (c === CharCodes.Gt || isWhitespace(c)) {
@@ -274,13 +648,13 @@ export default class Tokenizer {
         if ((c | 0x20) === this.currentSequence[this.sequenceIndex]) {
             this.sequenceIndex += 1;
         } else if (this.sequenceIndex === 0) {
-            if (this.currentSequence === Sequences.TitleEnd) {
+            if (this.textElementKind === "rcdata") {
                 // We have to parse entities in <title> tags.
                 if (this.decodeEntities && c === CharCodes.Amp) {
                     this.startEntity();
                 }
             } else if (this.fastForwardTo(CharCodes.Lt)) {
-                // Outside of <title> tags, we can fast-forward.
+                // Outside of RCDATA elements, we can fast-forward.
                 this.sequenceIndex = 1;
             }
         } else {
@@ -312,8 +686,10 @@ export default class Tokenizer {
      */
     private fastForwardTo(c: number): boolean {
         while (++this.index < this.buffer.length + this.offset) {
-            if (this.buffer.charCodeAt(this.index - this.offset) === c) {
-                return true;
+            const cc = this.buffer.charCodeAt(this.index - this.offset);
+            if (cc === c) return true;
+            if (this.hasNullCharacters && cc === CharCodes.Null) {
+                this.handleNullCharacter();
             }
         }
 
@@ -342,6 +718,14 @@ export default class Tokenizer {
                 if (this.currentSequence === Sequences.CdataEnd) {
                     this.cbs.oncdata(this.sectionStart, this.index, 2);
                 } else {
+                    if (this.index - 2 < this.sectionStart) {
+                        // The comment was closed by `<!-->` or `<!--->`.
+                        this.cbs.onparseerror(
+                            ParseErrorCode.AbruptClosingOfEmptyComment,
+                            this.sectionStart - 4,
+                            this.index,
+                        );
+                    }
                     this.cbs.oncomment(this.sectionStart, this.index, 2);
                 }
 
@@ -370,35 +754,39 @@ export default class Tokenizer {
         return this.xmlMode ? !isEndOfTagSection(c) : isASCIIAlpha(c);
     }
 
-    private startSpecial(sequence: Uint8Array, offset: number) {
-        this.isSpecial = true;
-        this.currentSequence = sequence;
-        this.sequenceIndex = offset;
-        this.state = State.SpecialStartSequence;
-    }
-
     private stateBeforeTagName(c: number): void {
         if (c === CharCodes.ExclamationMark) {
             this.state = State.BeforeDeclaration;
             this.sectionStart = this.index + 1;
         } else if (c === CharCodes.Questionmark) {
+            if (!this.xmlMode) {
+                this.cbs.onparseerror(
+                    ParseErrorCode.UnexpectedQuestionMarkInsteadOfTagName,
+                    this.index,
+                    this.index,
+                );
+            }
             this.state = State.InProcessingInstruction;
             this.sectionStart = this.index + 1;
         } else if (this.isTagStartChar(c)) {
-            const lower = c | 0x20;
+            const node = this.xmlMode
+                ? undefined
+                : this.textElements.children.get(c | 0x20);
             this.sectionStart = this.index;
-            if (this.xmlMode) {
-                this.state = State.InTagName;
-            } else if (lower === Sequences.ScriptEnd[2]) {
-                this.state = State.BeforeSpecialS;
-            } else if (lower === Sequences.TitleEnd[2]) {
-                this.state = State.BeforeSpecialT;
+            if (node) {
+                this.textElementNode = node;
+                this.state = State.SpecialStartSequence;
             } else {
                 this.state = State.InTagName;
             }
         } else if (c === CharCodes.Slash) {
             this.state = State.BeforeClosingTagName;
         } else {
+            this.cbs.onparseerror(
+                ParseErrorCode.InvalidFirstCharacterOfTagName,
+                this.index,
+                this.index,
+            );
             this.state = State.Text;
             this.stateText(c);
         }
@@ -412,14 +800,38 @@ export default class Tokenizer {
         }
     }
     private stateBeforeClosingTagName(c: number): void {
+        // The section starts at the `<` of the tag.
+        const isFirstCharacter = this.index === this.sectionStart + 2;
+
         if (isWhitespace(c)) {
-            // Ignore
+            // Whitespace is skipped, but only reported directly after `</`.
+            if (isFirstCharacter) {
+                this.cbs.onparseerror(
+                    ParseErrorCode.InvalidFirstCharacterOfTagName,
+                    this.index,
+                    this.index,
+                );
+            }
         } else if (c === CharCodes.Gt) {
+            if (isFirstCharacter) {
+                this.cbs.onparseerror(
+                    ParseErrorCode.MissingEndTagName,
+                    this.sectionStart,
+                    this.index,
+                );
+            }
             this.state = State.Text;
         } else {
-            this.state = this.isTagStartChar(c)
-                ? State.InClosingTagName
-                : State.InSpecialComment;
+            if (this.isTagStartChar(c)) {
+                this.state = State.InClosingTagName;
+            } else {
+                this.cbs.onparseerror(
+                    ParseErrorCode.InvalidFirstCharacterOfTagName,
+                    this.index,
+                    this.index,
+                );
+                this.state = State.InSpecialComment;
+            }
             this.sectionStart = this.index;
         }
     }
@@ -432,29 +844,68 @@ export default class Tokenizer {
         }
     }
     private stateAfterClosingTagName(c: number): void {
+        if (!this.hasEndTagError && c !== CharCodes.Gt && !isWhitespace(c)) {
+            this.hasEndTagError = true;
+            this.cbs.onparseerror(
+                c === CharCodes.Slash
+                    ? ParseErrorCode.EndTagWithTrailingSolidus
+                    : ParseErrorCode.EndTagWithAttributes,
+                this.index,
+                this.index,
+            );
+        }
+
         // Skip everything until ">"
-        if (c === CharCodes.Gt || this.fastForwardTo(CharCodes.Gt)) {
+        if (
+            c === CharCodes.Gt ||
+            (this.hasEndTagError && this.fastForwardTo(CharCodes.Gt))
+        ) {
             this.state = State.Text;
             this.sectionStart = this.index + 1;
+            this.hasEndTagError = false;
         }
     }
     private stateBeforeAttributeName(c: number): void {
         if (c === CharCodes.Gt) {
             this.cbs.onopentagend(this.index);
-            if (this.isSpecial) {
+            if (!this.isSpecial) {
+                this.state = State.Text;
+            } else if (this.textElementKind === "plaintext") {
+                this.state = State.InPlainText;
+            } else {
                 this.state = State.InSpecialTag;
                 this.sequenceIndex = 0;
-            } else {
-                this.state = State.Text;
             }
             this.sectionStart = this.index + 1;
         } else if (c === CharCodes.Slash) {
             this.state = State.InSelfClosingTag;
+            // Errors are reported at the solidus.
+            this.sectionStart = this.index;
         } else if (!isWhitespace(c)) {
+            if (c === CharCodes.Eq) {
+                this.cbs.onparseerror(
+                    ParseErrorCode.UnexpectedEqualsSignBeforeAttributeName,
+                    this.index,
+                    this.index,
+                );
+            } else {
+                this.checkAttributeNameChar(c);
+            }
             this.state = State.InAttributeName;
             this.sectionStart = this.index;
         }
     }
+    private stateAfterAttributeValueQuoted(c: number): void {
+        if (!isEndOfTagSection(c)) {
+            this.cbs.onparseerror(
+                ParseErrorCode.MissingWhitespaceBetweenAttributes,
+                this.index,
+                this.index,
+            );
+        }
+        this.state = State.BeforeAttributeName;
+        this.stateBeforeAttributeName(c);
+    }
     private stateInSelfClosingTag(c: number): void {
         if (c === CharCodes.Gt) {
             this.cbs.onselfclosingtag(this.index);
@@ -462,6 +913,11 @@ export default class Tokenizer {
             this.sectionStart = this.index + 1;
             this.isSpecial = false; // Reset special state, in case of self-closing special tags
         } else if (!isWhitespace(c)) {
+            this.cbs.onparseerror(
+                ParseErrorCode.UnexpectedSolidusInTag,
+                this.sectionStart,
+                this.sectionStart,
+            );
             this.state = State.BeforeAttributeName;
             this.stateBeforeAttributeName(c);
         }
@@ -472,18 +928,43 @@ export default class Tokenizer {
             this.sectionStart = this.index;
             this.state = State.AfterAttributeName;
             this.stateAfterAttributeName(c);
+        } else {
+            this.checkAttributeNameChar(c);
+        }
+    }
+    /** Quotes and `<` are allowed in attribute names, but are likely mistakes. */
+    private checkAttributeNameChar(c: number): void {
+        if (
+            c === CharCodes.DoubleQuote ||
+            c === CharCodes.SingleQuote ||
+            c === CharCodes.Lt
+        ) {
+            this.cbs.onparseerror(
+                ParseErrorCode.UnexpectedCharacterInAttributeName,
+                this.index,
+                this.index,
+            );
         }
     }
     private stateAfterAttributeName(c: number): void {
         if (c === CharCodes.Eq) {
             this.state = State.BeforeAttributeValue;
         } else if (c === CharCodes.Slash || c === CharCodes.Gt) {
-            this.cbs.onattribend(QuoteType.NoValue, this.sectionStart);
+            this.cbs.onattribend(
+                QuoteType.NoValue,
+                this.sectionStart,
+                this.sectionStart,
+            );
             this.sectionStart = -1;
             this.state = State.BeforeAttributeName;
             this.stateBeforeAttributeName(c);
         } else if (!isWhitespace(c)) {
-            this.cbs.onattribend(QuoteType.NoValue, this.sectionStart);
+            this.cbs.onattribend(
+                QuoteType.NoValue,
+                this.sectionStart,
+                this.sectionStart,
+            );
+            this.checkAttributeNameChar(c);
             this.state = State.InAttributeName;
             this.sectionStart = this.index;
         }
@@ -492,11 +973,21 @@ export default class Tokenizer {
         if (c === CharCodes.DoubleQuote) {
             this.state = State.InAttributeValueDq;
             this.sectionStart = this.index + 1;
+            this.valueStart = this.sectionStart;
         } else if (c === CharCodes.SingleQuote) {
             this.state = State.InAttributeValueSq;
             this.sectionStart = this.index + 1;
+            this.valueStart = this.sectionStart;
         } else if (!isWhitespace(c)) {
+            if (c === CharCodes.Gt) {
+                this.cbs.onparseerror(
+                    ParseErrorCode.MissingAttributeValue,
+                    this.index,
+                    this.index,
+                );
+            }
             this.sectionStart = this.index;
+            this.valueStart = this.index;
             this.state = State.InAttributeValueNq;
             this.stateInAttributeValueNoQuotes(c); // Reconsume token
         }
@@ -513,8 +1004,9 @@ export default class Tokenizer {
                     ? QuoteType.Double
                     : QuoteType.Single,
                 this.index + 1,
+                this.valueStart,
             );
-            this.state = State.BeforeAttributeName;
+            this.state = State.AfterAttributeValueQuoted;
         } else if (this.decodeEntities && c === CharCodes.Amp) {
             this.startEntity();
         }
@@ -529,11 +1021,27 @@ export default class Tokenizer {
         if (isWhitespace(c) || c === CharCodes.Gt) {
             this.cbs.onattribdata(this.sectionStart, this.index);
             this.sectionStart = -1;
-            this.cbs.onattribend(QuoteType.Unquoted, this.index);
+            this.cbs.onattribend(
+                QuoteType.Unquoted,
+                this.index,
+                this.valueStart,
+            );
             this.state = State.BeforeAttributeName;
             this.stateBeforeAttributeName(c);
         } else if (this.decodeEntities && c === CharCodes.Amp) {
             this.startEntity();
+        } else if (
+            c === CharCodes.DoubleQuote ||
+            c === CharCodes.SingleQuote ||
+            c === CharCodes.Lt ||
+            c === CharCodes.Eq ||
+            c === CharCodes.GraveAccent
+        ) {
+            this.cbs.onparseerror(
+                ParseErrorCode.UnexpectedCharacterInUnquotedAttributeValue,
+                this.index,
+                this.index,
+            );
         }
     }
     private stateBeforeDeclaration(c: number): void {
@@ -548,10 +1056,55 @@ export default class Tokenizer {
         }
     }
     private stateInDeclaration(c: number): void {
-        if (c === CharCodes.Gt || this.fastForwardTo(CharCodes.Gt)) {
+        if (this.declarationQuote !== 0) {
+            if (c === this.declarationQuote) this.declarationQuote = 0;
+        } else if (
+            c === CharCodes.Gt ||
+            (!this.xmlMode && this.fastForwardTo(CharCodes.Gt))
+        ) {
             this.cbs.ondeclaration(this.sectionStart, this.index);
             this.state = State.Text;
             this.sectionStart = this.index + 1;
+        } else if (this.xmlMode) {
+            // In XML, quoted strings and the internal subset can contain `>`.
+            if (c === CharCodes.DoubleQuote || c === CharCodes.SingleQuote) {
+                this.declarationQuote = c;
+            } else if (c === CharCodes.OpeningSquareBracket) {
+                this.state = State.InInternalSubset;
+                this.sequenceIndex = 0;
+            }
+        }
+    }
+    /**
+     * Skips over the declarations of a doctype's internal subset. Quoted
+     * strings and comments might contain a `]`.
+     */
+    private stateInInternalSubset(c: number): void {
+        if (this.declarationQuote !== 0) {
+            if (c === this.declarationQuote) this.declarationQuote = 0;
+        } else if (this.inSubsetComment) {
+            if (c === Sequences.CommentEnd[this.sequenceIndex]) {
+                if (++this.sequenceIndex === Sequences.CommentEnd.length) {
+                    this.inSubsetComment = false;
+                    this.sequenceIndex = 0;
+                }
+            } else if (this.sequenceIndex !== 2 || c !== CharCodes.Dash) {
+                // Dashes before the `>` are part of the comment end.
+                this.sequenceIndex = Number(c === CharCodes.Dash);
+            }
+        } else if (c === Sequences.CommentStart[this.sequenceIndex]) {
+            if (++this.sequenceIndex === Sequences.CommentStart.length) {
+                this.inSubsetComment = true;
+                this.sequenceIndex = 0;
+            }
+        } else {
+            this.sequenceIndex = Number(c === CharCodes.Lt);
+
+            if (c === CharCodes.DoubleQuote || c === CharCodes.SingleQuote) {
+                this.declarationQuote = c;
+            } else if (c === CharCodes.ClosingSquareBracket) {
+                this.state = State.InDeclaration;
+            }
         }
     }
     private stateInProcessingInstruction(c: number): void {
@@ -579,42 +1132,205 @@ export default class Tokenizer {
             this.sectionStart = this.index + 1;
         }
     }
-    private stateBeforeSpecialS(c: number): void {
-        const lower = c | 0x20;
-        if (lower === Sequences.ScriptEnd[3]) {
-            this.startSpecial(Sequences.ScriptEnd, 4);
-        } else if (lower === Sequences.StyleEnd[3]) {
-            this.startSpecial(Sequences.StyleEnd, 4);
+    /** Everything after a `<plaintext>` start tag is text. */
+    private stateInPlainText(): void {
+        // Text is emitted once the buffer has been consumed.
+    }
+
+    private startEntity() {
+        this.baseState = this.state;
+        this.entityStart = this.index;
+        this.entityErrorReported = false;
+
+        if (this.xmlMode) {
+            // Named entities might be declared in the document type.
+            this.state = State.InEntityName;
+            this.entityName = "";
         } else {
-            this.state = State.InTagName;
-            this.stateInTagName(c); // Consume the token again
+            this.state = State.InEntity;
+            this.entityDecoder.startEntity(
+                this.baseState === State.Text ||
+                    this.baseState === State.InSpecialTag
+                    ? DecodingMode.Legacy
+                    : DecodingMode.Attribute,
+            );
         }
     }
 
-    private stateBeforeSpecialT(c: number): void {
-        const lower = c | 0x20;
-        if (lower === Sequences.TitleEnd[3]) {
-            this.startSpecial(Sequences.TitleEnd, 4);
-        } else if (lower === Sequences.TextareaEnd[3]) {
-            this.startSpecial(Sequences.TextareaEnd, 4);
+    /**
+     * Character reference errors are reported after the code point was
+     * emitted, so the reference ends right before `sectionStart`.
+     */
+    private emitEntityError(code: ParseErrorCode) {
+        this.cbs.onparseerror(code, this.entityStart, this.sectionStart - 1);
+    }
+
+    /**
+     * XML doesn't allow numeric references without a semicolon. HTML
+     * reports these while decoding them.
+     */
+    private emitInvalidEntityError() {
+        if (!this.xmlMode || this.entityErrorReported) return;
+
+        this.cbs.onparseerror(
+            ParseErrorCode.MissingSemicolonAfterCharacterReference,
+            this.entityStart,
+            this.entityStart,
+        );
+    }
+
+    /**
+     * Reads the name of an entity in XML mode. Numeric references are
+     * passed on to the entity decoder.
+     */
+    private stateInEntityName(c: number): void {
+        if (c === CharCodes.Number && this.entityName === "") {
+            this.state = State.InEntity;
+            this.entityDecoder.startEntity(DecodingMode.Strict);
+            this.stateInEntity();
+        } else if (c === CharCodes.Semi) {
+            this.emitNamedEntity();
+        } else if (
+            isWhitespace(c) ||
+            c === CharCodes.Amp ||
+            c === CharCodes.Lt ||
+            c === CharCodes.Gt ||
+            c === CharCodes.Eq ||
+            c === CharCodes.DoubleQuote ||
+            c === CharCodes.SingleQuote
+        ) {
+            this.endInvalidEntity(
+                ParseErrorCode.UnknownNamedCharacterReference,
+                this.index - 1,
+            );
         } else {
-            this.state = State.InTagName;
-            this.stateInTagName(c); // Consume the token again
+            this.entityName += String.fromCharCode(c);
         }
     }
 
-    private startEntity() {
-        this.baseState = this.state;
-        this.state = State.InEntity;
-        this.entityStart = this.index;
-        this.entityDecoder.startEntity(
-            this.xmlMode
-                ? DecodingMode.Strict
-                : this.baseState === State.Text ||
-                    this.baseState === State.InSpecialTag
-                  ? DecodingMode.Legacy
-                  : DecodingMode.Attribute,
-        );
+    /** Emits the replacement text of a named entity in XML mode. */
+    private emitNamedEntity(): void {
+        const consumed = this.index + 1 - this.entityStart;
+        const predefined = xmlEntities.get(this.entityName);
+
+        if (predefined !== undefined) {
+            this.state = this.baseState;
+            this.emitCodePoint(predefined.charCodeAt(0), consumed);
+            return;
+        }
+
+        const replacement = this.expandEntity(this.entityName);
+
+        if (typeof replacement !== "string") {
+            this.endInvalidEntity(replacement.error, this.index);
+            return;
+        }
+
+        this.state = this.baseState;
+        this.consumeEntity(consumed);
+
+        if (replacement === "") return;
+
+        if (this.isEntityInAttribute()) {
+            for (const char of replacement) {
+                this.cbs.onattribentity(
+                    char.codePointAt(0)!,
+                    this.entityStart,
+                    this.sectionStart,
+                );
+            }
+        } else {
+            this.cbs.ontextreplacement(replacement, this.sectionStart);
+        }
+    }
+
+    /**
+     * Treats the current entity as text, and reconsumes the current
+     * character in the state the entity started in.
+     */
+    private endInvalidEntity(code: ParseErrorCode, endIndex: number): void {
+        this.cbs.onparseerror(code, this.entityStart, endIndex);
+        this.state = this.baseState;
+        this.index--;
+    }
+
+    /**
+     * Expands an entity declared in the document type, including the
+     * references in its replacement text.
+     *
+     * @returns The expanded text, or an error code if the entity is not
+     * declared or a limit was exceeded.
+     */
+    private expandEntity(name: string): string | { error: ParseErrorCode } {
+        const expanded = this.expandReplacementText(name, []);
+        const error = this.expansionError;
+        this.expansionError = null;
+        return error ? { error } : expanded;
+    }
+
+    /**
+     * Recursively expands the replacement text of an entity. Errors are
+     * stored in `expansionError`.
+     *
+     * @param name The name of the entity.
+     * @param open The entities that are currently being expanded.
+     */
+    private expandReplacementText(name: string, open: string[]): string {
+        const text = this.declaredEntities.get(name);
+
+        if (text === undefined) {
+            this.expansionError = ParseErrorCode.UnknownNamedCharacterReference;
+            return "";
+        }
+        if (open.includes(name)) {
+            this.expansionError = ParseErrorCode.RecursiveEntityReference;
+            return "";
+        }
+        if (open.length === this.maxEntityExpansionDepth) {
+            this.expansionError = ParseErrorCode.EntityExpansionLimitExceeded;
+            return "";
+        }
+
+        open.push(name);
+        let result = "";
+        let lastIndex = 0;
+
+        for (const match of text.matchAll(reReference)) {
+            const [reference, hex, decimal, referenceName] = match as (
+                | string
+                | undefined
+            )[];
+            const literal = text.slice(lastIndex, match.index);
+            lastIndex = match.index + reference!.length;
+            // References count as a single character.
+            this.expandedLength += literal.length + 1;
+
+            result +=
+                literal +
+                (referenceName === undefined
+                    ? decodeCodePoint(
+                          hex === undefined
+                              ? Number(decimal)
+                              : Number.parseInt(hex, 16),
+                      )
+                    : xmlEntities.get(referenceName) ??
+                      this.expandReplacementText(referenceName, open));
+
+            if (this.expandedLength > this.maxEntityExpansionLength) {
+                this.expansionError =
+                    ParseErrorCode.EntityExpansionLimitExceeded;
+            }
+            if (this.expansionError) return "";
+        }
+
+        open.pop();
+        const rest = text.slice(lastIndex);
+        this.expandedLength += rest.length;
+
+        if (this.expandedLength > this.maxEntityExpansionLength) {
+            this.expansionError = ParseErrorCode.EntityExpansionLimitExceeded;
+        }
+        return result + rest;
     }
 
     private stateInEntity(): void {
@@ -629,6 +1345,7 @@ export default class Tokenizer {
 
             if (length === 0) {
                 this.index = this.entityStart;
+                this.emitInvalidEntityError();
             }
         } else {
             // Mark buffer as consumed.
@@ -644,6 +1361,7 @@ export default class Tokenizer {
         if (this.running && this.sectionStart !== this.index) {
             if (
                 this.state === State.Text ||
+                this.state === State.InPlainText ||
                 (this.state === State.InSpecialTag && this.sequenceIndex === 0)
             ) {
                 this.cbs.ontext(this.sectionStart, this.index);
@@ -659,6 +1377,26 @@ export default class Tokenizer {
         }
     }
 
+    /**
+     * `NUL` characters are allowed in CDATA sections, but nowhere else.
+     *
+     * Characters are revisited if an entity turns out to be invalid, so
+     * they are checked once we are back in the base state.
+     */
+    private handleNullCharacter() {
+        if (
+            this.state !== State.InEntity &&
+            (this.state !== State.InCommentLike ||
+                this.currentSequence !== Sequences.CdataEnd)
+        ) {
+            this.cbs.onparseerror(
+                ParseErrorCode.UnexpectedNullCharacter,
+                this.index,
+                this.index,
+            );
+        }
+    }
+
     private shouldContinue() {
         return this.index < this.buffer.length + this.offset && this.running;
     }
@@ -671,6 +1409,9 @@ export default class Tokenizer {
     private parse() {
         while (this.shouldContinue()) {
             const c = this.buffer.charCodeAt(this.index - this.offset);
+            if (this.hasNullCharacters && c === CharCodes.Null) {
+                this.handleNullCharacter();
+            }
             switch (this.state) {
                 case State.Text: {
                     this.stateText(c);
@@ -708,6 +1449,10 @@ export default class Tokenizer {
                     this.stateBeforeAttributeName(c);
                     break;
                 }
+                case State.AfterAttributeValueQuoted: {
+                    this.stateAfterAttributeValueQuoted(c);
+                    break;
+                }
                 case State.InTagName: {
                     this.stateInTagName(c);
                     break;
@@ -740,12 +1485,8 @@ export default class Tokenizer {
                     this.stateAfterClosingTagName(c);
                     break;
                 }
-                case State.BeforeSpecialS: {
-                    this.stateBeforeSpecialS(c);
-                    break;
-                }
-                case State.BeforeSpecialT: {
-                    this.stateBeforeSpecialT(c);
+                case State.InPlainText: {
+                    this.stateInPlainText();
                     break;
                 }
                 case State.InAttributeValueNq: {
@@ -776,6 +1517,14 @@ export default class Tokenizer {
                     this.stateInEntity();
                     break;
                 }
+                case State.InEntityName: {
+                    this.stateInEntityName(c);
+                    break;
+                }
+                case State.InInternalSubset: {
+                    this.stateInInternalSubset(c);
+                    break;
+                }
             }
             this.index++;
         }
@@ -784,7 +1533,17 @@ export default class Tokenizer {
 
     private finish() {
         if (this.state === State.InEntity) {
-            this.entityDecoder.end();
+            if (this.entityDecoder.end() === 0) {
+                this.emitInvalidEntityError();
+            }
+            this.state = this.baseState;
+        } else if (this.state === State.InEntityName) {
+            const endIndex = this.buffer.length + this.offset;
+            this.cbs.onparseerror(
+                ParseErrorCode.UnknownNamedCharacterReference,
+                this.entityStart,
+                endIndex - 1,
+            );
             this.state = this.baseState;
         }
 
@@ -797,6 +1556,8 @@ export default class Tokenizer {
     private handleTrailingData() {
         const endIndex = this.buffer.length + this.offset;
 
+        this.reportTrailingData(endIndex);
+
         // If there is no remaining data, we are done.
         if (this.sectionStart >= endIndex) {
             return;
@@ -810,43 +1571,111 @@ export default class Tokenizer {
             }
         } else if (
             this.state === State.InTagName ||
+            this.state === State.SpecialStartSequence ||
             this.state === State.BeforeAttributeName ||
+            this.state === State.InSelfClosingTag ||
             this.state === State.BeforeAttributeValue ||
             this.state === State.AfterAttributeName ||
             this.state === State.InAttributeName ||
             this.state === State.InAttributeValueSq ||
             this.state === State.InAttributeValueDq ||
             this.state === State.InAttributeValueNq ||
+            this.state === State.AfterAttributeValueQuoted ||
             this.state === State.InClosingTagName
         ) {
             /*
              * If we are currently in an opening or closing tag, us not calling the
              * respective callback signals that the tag should be ignored.
+             * Incomplete names are still passed on, so that they can be reported.
              */
+            if (this.state === State.InClosingTagName) {
+                this.cbs.ontrailingtagname(this.sectionStart, endIndex, true);
+            } else if (
+                this.state === State.InTagName ||
+                this.state === State.SpecialStartSequence
+            ) {
+                this.cbs.ontrailingtagname(this.sectionStart, endIndex, false);
+            }
         } else {
             this.cbs.ontext(this.sectionStart, endIndex);
         }
     }
 
-    private emitCodePoint(cp: number, consumed: number): void {
-        if (
+    /** Reports errors for input that ended in the middle of a token. */
+    private reportTrailingData(endIndex: number) {
+        switch (this.state) {
+            case State.BeforeTagName:
+            case State.BeforeClosingTagName: {
+                this.cbs.onparseerror(
+                    ParseErrorCode.EofBeforeTagName,
+                    endIndex,
+                    endIndex,
+                );
+                break;
+            }
+            case State.InTagName:
+            case State.SpecialStartSequence:
+            case State.InSelfClosingTag:
+            case State.InClosingTagName:
+            case State.AfterClosingTagName:
+            case State.BeforeAttributeName:
+            case State.InAttributeName:
+            case State.AfterAttributeName:
+            case State.BeforeAttributeValue:
+            case State.InAttributeValueDq:
+            case State.InAttributeValueSq:
+            case State.InAttributeValueNq:
+            case State.AfterAttributeValueQuoted: {
+                this.cbs.onparseerror(
+                    ParseErrorCode.EofInTag,
+                    endIndex,
+                    endIndex,
+                );
+                break;
+            }
+            case State.InCommentLike: {
+                this.cbs.onparseerror(
+                    this.currentSequence === Sequences.CdataEnd
+                        ? ParseErrorCode.EofInCdata
+                        : ParseErrorCode.EofInComment,
+                    endIndex,
+                    endIndex,
+                );
+                break;
+            }
+            default: {
+                // Other states don't have errors at the end of the input.
+                break;
+            }
+        }
+    }
+
+    private isEntityInAttribute(): boolean {
+        return (
             this.baseState !== State.Text &&
             this.baseState !== State.InSpecialTag
-        ) {
-            if (this.sectionStart < this.entityStart) {
-                this.cbs.onattribdata(this.sectionStart, this.entityStart);
-            }
-            this.sectionStart = this.entityStart + consumed;
-            this.index = this.sectionStart - 1;
+        );
+    }
 
-            this.cbs.onattribentity(cp);
-        } else {
-            if (this.sectionStart < this.entityStart) {
+    /** Emits the data before the current entity, and skips the entity. */
+    private consumeEntity(consumed: number): void {
+        if (this.sectionStart < this.entityStart) {
+            if (this.isEntityInAttribute()) {
+                this.cbs.onattribdata(this.sectionStart, this.entityStart);
+            } else {
                 this.cbs.ontext(this.sectionStart, this.entityStart);
             }
-            this.sectionStart = this.entityStart + consumed;
-            this.index = this.sectionStart - 1;
+        }
+        this.sectionStart = this.entityStart + consumed;
+        this.index = this.sectionStart - 1;
+    }
+
+    private emitCodePoint(cp: number, consumed: number): void {
+        this.consumeEntity(consumed);
 
+        if (this.isEntityInAttribute()) {
+            this.cbs.onattribentity(cp, this.entityStart, this.sectionStart);
+        } else {
             this.cbs.ontextentity(cp, this.sectionStart);
         }
     }
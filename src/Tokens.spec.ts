@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { tokenize, type Token } from "./index.js";
+
+const document =
+    "<!DOCTYPE html><p class=a&amp;b>x &lt; y<br/></p><!--c--><?pi x?><![CDATA[d]]></x>tail";
+
+describe("tokenize", () => {
+    it("should produce tokens", () => {
+        expect([...tokenize(document)]).toMatchSnapshot();
+    });
+
+    it("should not imply or drop tags", () => {
+        const names = [...tokenize("<p><div></p></span>")].map((token) =>
+            token.type === "starttag" || token.type === "endtag"
+                ? `${token.type} ${token.name}`
+                : token.type,
+        );
+
+        expect(names).toEqual([
+            "starttag p",
+            "starttag div",
+            "endtag p",
+            "endtag span",
+        ]);
+    });
+
+    it("should support chunks", () => {
+        expect([...tokenize([...document])]).toEqual([...tokenize(document)]);
+    });
+
+    it("should support async iterables", async () => {
+        async function* chunks() {
+            for (const chunk of document) yield chunk;
+        }
+
+        const tokens: Token[] = [];
+        for await (const token of tokenize(chunks())) tokens.push(token);
+
+        expect(tokens).toEqual([...tokenize(document)]);
+    });
+
+    it("should stop when the consumer stops", () => {
+        const tokens = tokenize("<a><b><c>");
+
+        expect(tokens.next().value).toMatchObject({ name: "a" });
+        expect(tokens.return()).toEqual({ done: true, value: undefined });
+    });
+
+    it("should support XML mode", () => {
+        expect([
+            ...tokenize("<Foo><![CDATA[x]]><!DOCTYPE foo></Foo>", {
+                xmlMode: true,
+            }),
+        ]).toMatchSnapshot();
+    });
+
+    it("should add positions", () => {
+        const [text, tag] = tokenize("a\n<b>", {
+            sourceCodeLocationInfo: true,
+        });
+
+        expect(text.endPosition).toEqual({ line: 1, column: 2, offset: 1 });
+        expect(tag.startPosition).toEqual({ line: 2, column: 1, offset: 2 });
+        expect(tag.endPosition).toEqual({ line: 2, column: 3, offset: 4 });
+    });
+});
@@ -0,0 +1,475 @@
+import Tokenizer, {
+    type Callbacks,
+    QuoteType,
+    type SourcePosition,
+} from "./Tokenizer.js";
+import { fromCodePoint } from "entities/dist/decode.js";
+import type { Attribute, ParserOptions } from "./Parser.js";
+import { parseDoctype, type Doctype } from "./Doctype.js";
+
+/** The options that are supported by `tokenize`. */
+export type TokenizeOptions = Pick<
+    ParserOptions,
+    | "xmlMode"
+    | "decodeEntities"
+    | "lowerCaseTags"
+    | "lowerCaseAttributeNames"
+    | "recognizeCDATA"
+    | "textElements"
+    | "schema"
+    | "sourceCodeLocationInfo"
+    | "Tokenizer"
+>;
+
+interface TokenBase {
+    /** The index of the first character of the token. */
+    startIndex: number;
+    /** The index of the last character of the token. */
+    endIndex: number;
+    /** Only set if the `sourceCodeLocationInfo` option is enabled. */
+    startPosition?: SourcePosition;
+    /** Only set if the `sourceCodeLocationInfo` option is enabled. */
+    endPosition?: SourcePosition;
+}
+
+export interface StartTagToken extends TokenBase {
+    type: "starttag";
+    name: string;
+    /** All attributes in source order, including duplicates. */
+    attributes: Attribute[];
+    /** Indicates whether the tag ended with `/>`. */
+    selfClosing: boolean;
+}
+
+export interface EndTagToken extends TokenBase {
+    type: "endtag";
+    name: string;
+}
+
+export interface TextToken extends TokenBase {
+    type: "text";
+    /** The text, with entities decoded if `decodeEntities` is enabled. */
+    data: string;
+}
+
+export interface CommentToken extends TokenBase {
+    type: "comment";
+    data: string;
+}
+
+/**
+ * A CDATA section. In HTML mode, CDATA sections are only recognized with the
+ * `recognizeCDATA` option, and are comments otherwise.
+ */
+export interface CDataToken extends TokenBase {
+    type: "cdata";
+    data: string;
+}
+
+/** A `<!DOCTYPE>` declaration. Only produced in HTML mode. */
+export interface DoctypeToken extends TokenBase, Doctype {
+    type: "doctype";
+}
+
+/**
+ * A processing instruction or a declaration, with the same name and data as
+ * reported by `Handler.onprocessinginstruction`.
+ */
+export interface ProcessingInstructionToken extends TokenBase {
+    type: "processinginstruction";
+    name: string;
+    data: string;
+}
+
+export type Token =
+    | StartTagToken
+    | EndTagToken
+    | TextToken
+    | CommentToken
+    | CDataToken
+    | DoctypeToken
+    | ProcessingInstructionToken;
+
+const reNameEnd = /\s|\//;
+
+/**
+ * Turns the index pairs reported by the `Tokenizer` into tokens.
+ *
+ * The tokenizer is paused whenever a token is complete, so tokens are only
+ * produced as they are consumed.
+ */
+class TokenCollector implements Callbacks {
+    /** Tokens that are ready to be consumed. */
+    public readonly tokens: Token[] = [];
+    public readonly tokenizer: Tokenizer;
+
+    /** The input that is still needed. */
+    private buffer = "";
+    /** The index of the first character of `buffer`. */
+    private bufferOffset = 0;
+    /** The end of the last slice, everything before it can be dropped. */
+    private consumed = 0;
+    /** The start of the next token. */
+    private startIndex = 0;
+
+    private readonly htmlMode: boolean;
+    private readonly lowerCaseTagNames: boolean;
+    private readonly lowerCaseAttributeNames: boolean;
+    private readonly recognizeCDATA: boolean;
+
+    /** Text is collected until the next token starts. */
+    private text: TextToken | null = null;
+    private startTag: StartTagToken | null = null;
+    private attribName = "";
+    private attribRawName = "";
+    private attribValue = "";
+    private attribNameStart = 0;
+    private attribNameEnd = 0;
+
+    constructor(options: TokenizeOptions) {
+        this.htmlMode = !options.xmlMode;
+        this.lowerCaseTagNames = options.lowerCaseTags ?? this.htmlMode;
+        this.lowerCaseAttributeNames =
+            options.lowerCaseAttributeNames ?? this.htmlMode;
+        this.recognizeCDATA = options.recognizeCDATA ?? !this.htmlMode;
+        this.tokenizer = new (options.Tokenizer ?? Tokenizer)(options, this);
+    }
+
+    /** Adds a chunk of input. Tokens are collected until the tokenizer pauses. */
+    public write(chunk: string): void {
+        this.buffer =
+            this.buffer.slice(this.consumed - this.bufferOffset) + chunk;
+        this.bufferOffset = this.consumed;
+        this.tokenizer.write(chunk);
+    }
+
+    /** Collects the next tokens. Returns `false` once the chunk is consumed. */
+    public resume(): boolean {
+        if (this.tokenizer.running) return false;
+        this.tokenizer.resume();
+        return true;
+    }
+
+    private getSlice(start: number, end: number): string {
+        this.consumed = end;
+        return this.buffer.slice(
+            start - this.bufferOffset,
+            end - this.bufferOffset,
+        );
+    }
+
+    private getName(start: number, endIndex: number): string {
+        const name = this.getSlice(start, endIndex);
+        return this.lowerCaseTagNames ? name.toLowerCase() : name;
+    }
+
+    private getInstructionName(value: string): string {
+        const index = value.search(reNameEnd);
+        const name = index < 0 ? value : value.slice(0, index);
+        return this.lowerCaseTagNames ? name.toLowerCase() : name;
+    }
+
+    /** Adds a completed token, along with any text before it. */
+    private push(token: Token): void {
+        this.flushText();
+        this.addPositions(token);
+        this.tokens.push(token);
+        this.tokenizer.pause();
+        this.startIndex = token.endIndex + 1;
+    }
+
+    private flushText(): void {
+        if (this.text) {
+            this.addPositions(this.text);
+            this.tokens.push(this.text);
+            this.text = null;
+        }
+    }
+
+    private addPositions(token: Token): void {
+        const startPosition = this.tokenizer.getPosition(token.startIndex);
+        const endPosition = this.tokenizer.getPosition(token.endIndex);
+
+        if (startPosition && endPosition) {
+            token.startPosition = startPosition;
+            token.endPosition = endPosition;
+        }
+    }
+
+    private addText(data: string, endIndex: number): void {
+        if (this.text) {
+            this.text.data += data;
+            this.text.endIndex = endIndex - 1;
+        } else {
+            this.text = {
+                type: "text",
+                data,
+                startIndex: this.startIndex,
+                endIndex: endIndex - 1,
+            };
+        }
+
+        this.startIndex = endIndex;
+    }
+
+    /** @internal */
+    ontext(start: number, endIndex: number): void {
+        this.addText(this.getSlice(start, endIndex), endIndex);
+    }
+
+    /** @internal */
+    ontextentity(cp: number, endIndex: number): void {
+        this.ontextreplacement(fromCodePoint(cp), endIndex);
+    }
+
+    /** @internal */
+    ontextreplacement(data: string, endIndex: number): void {
+        this.consumed = endIndex;
+        this.addText(data, endIndex);
+    }
+
+    /** @internal */
+    onopentagname(start: number, endIndex: number): void {
+        this.startTag = {
+            type: "starttag",
+            name: this.getName(start, endIndex),
+            attributes: [],
+            selfClosing: false,
+            startIndex: start - 1,
+            endIndex,
+        };
+    }
+
+    /** @internal */
+    onattribname(start: number, endIndex: number): void {
+        const name = this.getSlice(start, endIndex);
+        this.attribRawName = name;
+        this.attribName = this.lowerCaseAttributeNames
+            ? name.toLowerCase()
+            : name;
+        this.attribNameStart = start;
+        this.attribNameEnd = endIndex;
+    }
+
+    /** @internal */
+    onattribdata(start: number, endIndex: number): void {
+        this.attribValue += this.getSlice(start, endIndex);
+    }
+
+    /** @internal */
+    onattribentity(cp: number, _start: number, endIndex: number): void {
+        this.consumed = endIndex;
+        this.attribValue += fromCodePoint(cp);
+    }
+
+    /** @internal */
+    onattribend(quote: QuoteType, endIndex: number, valueStart: number): void {
+        const isQuoted =
+            quote === QuoteType.Double || quote === QuoteType.Single;
+
+        this.startTag?.attributes.push({
+            name: this.attribName,
+            rawName: this.attribRawName,
+            value: this.attribValue,
+            quote:
+                quote === QuoteType.Double
+                    ? '"'
+                    : quote === QuoteType.Single
+                      ? "'"
+                      : quote === QuoteType.NoValue
+                        ? undefined
+                        : null,
+            nameStartIndex: this.attribNameStart,
+            nameEndIndex: this.attribNameEnd,
+            valueStartIndex: valueStart,
+            valueEndIndex: isQuoted ? endIndex - 1 : endIndex,
+        });
+        this.attribValue = "";
+    }
+
+    /** @internal */
+    onopentagend(endIndex: number): void {
+        this.endStartTag(endIndex, false);
+    }
+
+    /** @internal */
+    onselfclosingtag(endIndex: number): void {
+        this.endStartTag(endIndex, true);
+    }
+
+    private endStartTag(endIndex: number, selfClosing: boolean): void {
+        if (!this.startTag) return;
+
+        this.startTag.selfClosing = selfClosing;
+        this.startTag.endIndex = endIndex;
+        this.push(this.startTag);
+        this.startTag = null;
+    }
+
+    /** @internal */
+    ontrailingtagname(): void {
+        // Tags at the end of the input are dropped.
+    }
+
+    /** @internal */
+    onclosetag(start: number, endIndex: number): void {
+        this.push({
+            type: "endtag",
+            name: this.getName(start, endIndex),
+            startIndex: this.startIndex,
+            endIndex,
+        });
+    }
+
+    /** @internal */
+    oncomment(start: number, endIndex: number, offset: number): void {
+        this.push({
+            type: "comment",
+            data: this.getSlice(start, endIndex - offset),
+            startIndex: this.startIndex,
+            endIndex,
+        });
+    }
+
+    /** @internal */
+    oncdata(start: number, endIndex: number, offset: number): void {
+        const data = this.getSlice(start, endIndex - offset);
+
+        this.push(
+            this.recognizeCDATA
+                ? { type: "cdata", data, startIndex: this.startIndex, endIndex }
+                : {
+                      type: "comment",
+                      data: `[CDATA[${data}]]`,
+                      startIndex: this.startIndex,
+                      endIndex,
+                  },
+        );
+    }
+
+    /** @internal */
+    ondeclaration(start: number, endIndex: number): void {
+        const value = this.getSlice(start, endIndex);
+
+        if (this.htmlMode && value.slice(0, 7).toLowerCase() === "doctype") {
+            this.push({
+                type: "doctype",
+                ...parseDoctype(value),
+                startIndex: this.startIndex,
+                endIndex,
+            });
+        } else {
+            this.push({
+                type: "processinginstruction",
+                name: `!${this.getInstructionName(value)}`,
+                data: `!${value}`,
+                startIndex: this.startIndex,
+                endIndex,
+            });
+        }
+    }
+
+    /** @internal */
+    onprocessinginstruction(start: number, endIndex: number): void {
+        const value = this.getSlice(start, endIndex);
+
+        this.push({
+            type: "processinginstruction",
+            name: `?${this.getInstructionName(value)}`,
+            data: `?${value}`,
+            startIndex: this.startIndex,
+            endIndex,
+        });
+    }
+
+    /** @internal */
+    onparseerror(): void {
+        // Parse errors are not reported as tokens.
+    }
+
+    /** @internal */
+    onend(): void {
+        this.flushText();
+    }
+}
+
+function isAsyncIterable(
+    input: string | Iterable<string> | AsyncIterable<string>,
+): input is AsyncIterable<string> {
+    return typeof input !== "string" && Symbol.asyncIterator in input;
+}
+
+/** Yields the tokens of a chunk, resuming the tokenizer as necessary. */
+function* consume(
+    collector: TokenCollector,
+): Generator<Token, void, undefined> {
+    do {
+        yield* collector.tokens;
+        collector.tokens.length = 0;
+    } while (collector.resume());
+}
+
+function* tokenizeSync(
+    input: string | Iterable<string>,
+    options: TokenizeOptions,
+): Generator<Token, void, undefined> {
+    const collector = new TokenCollector(options);
+
+    for (const chunk of typeof input === "string" ? [input] : input) {
+        collector.write(chunk);
+        yield* consume(collector);
+    }
+
+    collector.tokenizer.end();
+    yield* collector.tokens;
+}
+
+async function* tokenizeAsync(
+    input: AsyncIterable<string>,
+    options: TokenizeOptions,
+): AsyncGenerator<Token, void, undefined> {
+    const collector = new TokenCollector(options);
+
+    for await (const chunk of input) {
+        collector.write(chunk);
+        yield* consume(collector);
+    }
+
+    collector.tokenizer.end();
+    yield* collector.tokens;
+}
+
+/**
+ * Splits a document into tokens. Unlike the `Parser`, no tags are implied or
+ * dropped: every start tag, end tag, text, comment etc. is reported as it
+ * appears in the input.
+ *
+ * Tokens are produced as they are consumed, so it is possible to stop early.
+ *
+ * @param input The document, or an iterable of chunks of the document.
+ * @param options Options for the tokenizer.
+ * @returns An iterable of tokens.
+ */
+export function tokenize(
+    input: string | Iterable<string>,
+    options?: TokenizeOptions,
+): Generator<Token, void, undefined>;
+/**
+ * Splits chunks of a document into tokens, eg. from a stream.
+ *
+ * @param input An async iterable of chunks of the document.
+ * @param options Options for the tokenizer.
+ * @returns An async iterable of tokens.
+ */
+export function tokenize(
+    input: AsyncIterable<string>,
+    options?: TokenizeOptions,
+): AsyncGenerator<Token, void, undefined>;
+export function tokenize(
+    input: string | Iterable<string> | AsyncIterable<string>,
+    options: TokenizeOptions = {},
+): Generator<Token, void, undefined> | AsyncGenerator<Token, void, undefined> {
+    return isAsyncIterable(input)
+        ? tokenizeAsync(input, options)
+        : tokenizeSync(input, options);
+}
@@ -0,0 +1,3038 @@
+/**
+ * An implementation of the WHATWG HTML tree construction stage.
+ *
+ * The tree builder consumes the tags, text and comments produced by the
+ * `Parser` and arranges them the way browsers do: it follows the insertion
+ * modes, reconstructs active formatting elements, runs the adoption agency
+ * algorithm and foster-parents content that appears in the wrong place in
+ * tables.
+ *
+ * As these algorithms can move nodes that were inserted earlier, the tree is
+ * built in memory. The `Parser` replays it as regular `Handler` events once
+ * parsing has finished.
+ *
+ * @see https://html.spec.whatwg.org/multipage/parsing.html#tree-construction
+ */
+
+import type { Attribute } from "./Parser.js";
+import { getDocumentMode, type Doctype, type DocumentMode } from "./Doctype.js";
+import type { TextElementKind } from "./Tokenizer.js";
+import { Namespace } from "./Namespaces.js";
+import {
+    adjustAttributeName,
+    adjustTagName,
+    getForeignAttributeName,
+} from "./ForeignContent.js";
+
+interface TreeNodeBase {
+    parent: TreeParent | null;
+    /** Position of the token that created the node. */
+    startIndex: number;
+    endIndex: number;
+}
+
+export interface TreeElement extends TreeNodeBase {
+    type: "element";
+    name: string;
+    namespace: Namespace;
+    attribs: Record<string, string>;
+    attributes: Attribute[];
+    children: TreeNode[];
+    /** Indicates that there was no start tag for this element. */
+    isImplied: boolean;
+    /** Indicates that the start tag used self-closing syntax, eg. `<br/>`. */
+    isSelfClosing: boolean;
+    /** Indicates whether the element was removed from the stack of open elements. */
+    isClosed: boolean;
+    /** Indicates that the element wasn't closed by a matching end tag. */
+    isCloseImplied: boolean;
+    closeStartIndex: number;
+    closeEndIndex: number;
+}
+
+export interface TreeText extends TreeNodeBase {
+    type: "text";
+    data: string;
+}
+
+export interface TreeComment extends TreeNodeBase {
+    type: "comment";
+    data: string;
+}
+
+export interface TreeCDATA extends TreeNodeBase {
+    type: "cdata";
+    data: string;
+}
+
+export interface TreeProcessingInstruction extends TreeNodeBase {
+    type: "processinginstruction";
+    name: string;
+    data: string;
+    /** Details of the doctype, if this is the doctype of the document. */
+    doctype?: Doctype;
+}
+
+export interface TreeDocument {
+    type: "document";
+    children: TreeNode[];
+}
+
+export type TreeNode =
+    | TreeElement
+    | TreeText
+    | TreeComment
+    | TreeCDATA
+    | TreeProcessingInstruction;
+export type TreeParent = TreeElement | TreeDocument;
+
+export interface StartTagToken {
+    type: TokenType.StartTag;
+    name: string;
+    attribs: Record<string, string>;
+    attributes: Attribute[];
+    selfClosing: boolean;
+    startIndex: number;
+    endIndex: number;
+}
+
+export interface EndTagToken {
+    type: TokenType.EndTag;
+    name: string;
+    startIndex: number;
+    endIndex: number;
+}
+
+export interface CharactersToken {
+    type: TokenType.Characters;
+    data: string;
+    startIndex: number;
+    endIndex: number;
+}
+
+/** Comments, CDATA sections and processing instructions. */
+export interface CommentToken {
+    type: TokenType.Comment;
+    node: TreeComment | TreeCDATA | TreeProcessingInstruction;
+    startIndex: number;
+    endIndex: number;
+}
+
+export interface DoctypeToken {
+    type: TokenType.Doctype;
+    node: TreeProcessingInstruction;
+    doctype: Doctype;
+    startIndex: number;
+    endIndex: number;
+}
+
+export interface EOFToken {
+    type: TokenType.EOF;
+    startIndex: number;
+    endIndex: number;
+}
+
+export type Token =
+    | StartTagToken
+    | EndTagToken
+    | CharactersToken
+    | CommentToken
+    | DoctypeToken
+    | EOFToken;
+
+export const enum TokenType {
+    StartTag,
+    EndTag,
+    Characters,
+    Comment,
+    Doctype,
+    EOF,
+}
+
+/** @see https://html.spec.whatwg.org/multipage/parsing.html#the-insertion-mode */
+const enum InsertionMode {
+    Initial,
+    BeforeHtml,
+    BeforeHead,
+    InHead,
+    InHeadNoscript,
+    AfterHead,
+    InBody,
+    Text,
+    InTable,
+    InTableText,
+    InCaption,
+    InColumnGroup,
+    InTableBody,
+    InRow,
+    InCell,
+    InSelect,
+    InSelectInTable,
+    InTemplate,
+    AfterBody,
+    InFrameset,
+    AfterFrameset,
+    AfterAfterBody,
+    AfterAfterFrameset,
+}
+
+/** Elements in the HTML namespace that are part of the `special` category. */
+const specialElements = new Set([
+    "address",
+    "applet",
+    "area",
+    "article",
+    "aside",
+    "base",
+    "basefont",
+    "bgsound",
+    "blockquote",
+    "body",
+    "br",
+    "button",
+    "caption",
+    "center",
+    "col",
+    "colgroup",
+    "dd",
+    "details",
+    "dir",
+    "div",
+    "dl",
+    "dt",
+    "embed",
+    "fieldset",
+    "figcaption",
+    "figure",
+    "footer",
+    "form",
+    "frame",
+    "frameset",
+    "h1",
+    "h2",
+    "h3",
+    "h4",
+    "h5",
+    "h6",
+    "head",
+    "header",
+    "hgroup",
+    "hr",
+    "html",
+    "iframe",
+    "img",
+    "input",
+    "keygen",
+    "li",
+    "link",
+    "listing",
+    "main",
+    "marquee",
+    "menu",
+    "meta",
+    "nav",
+    "noembed",
+    "noframes",
+    "noscript",
+    "object",
+    "ol",
+    "p",
+    "param",
+    "plaintext",
+    "pre",
+    "script",
+    "search",
+    "section",
+    "select",
+    "source",
+    "style",
+    "summary",
+    "table",
+    "tbody",
+    "td",
+    "template",
+    "textarea",
+    "tfoot",
+    "th",
+    "thead",
+    "title",
+    "tr",
+    "track",
+    "ul",
+    "wbr",
+    "xmp",
+]);
+
+const mathMLTextIntegrationPoints = new Set(["mi", "mo", "mn", "ms", "mtext"]);
+const svgHtmlIntegrationPoints = new Set(["foreignobject", "desc", "title"]);
+
+const defaultScope = new Set([
+    "applet",
+    "caption",
+    "html",
+    "table",
+    "td",
+    "th",
+    "marquee",
+    "object",
+    "template",
+]);
+const listItemScope = new Set([...defaultScope, "ol", "ul"]);
+const buttonScope = new Set([...defaultScope, "button"]);
+const tableScope = new Set(["html", "table", "template"]);
+
+/** Select scope is checked explicitly; this set only identifies it. */
+const selectScope = new Set<string>();
+const tableBodyContext = new Set([
+    "tbody",
+    "tfoot",
+    "thead",
+    "template",
+    "html",
+]);
+const tableRowContext = new Set(["tr", "template", "html"]);
+
+const impliedEndTags = new Set([
+    "dd",
+    "dt",
+    "li",
+    "optgroup",
+    "option",
+    "p",
+    "rb",
+    "rp",
+    "rt",
+    "rtc",
+]);
+const impliedEndTagsThoroughly = new Set([
+    ...impliedEndTags,
+    "caption",
+    "colgroup",
+    "tbody",
+    "td",
+    "tfoot",
+    "th",
+    "thead",
+    "tr",
+]);
+
+const headings = new Set(["h1", "h2", "h3", "h4", "h5", "h6"]);
+const formattingElements = new Set([
+    "a",
+    "b",
+    "big",
+    "code",
+    "em",
+    "font",
+    "i",
+    "nobr",
+    "s",
+    "small",
+    "strike",
+    "strong",
+    "tt",
+    "u",
+]);
+const headElements = new Set([
+    "base",
+    "basefont",
+    "bgsound",
+    "link",
+    "meta",
+    "noframes",
+    "script",
+    "style",
+    "template",
+    "title",
+]);
+const closesParagraph = new Set([
+    "address",
+    "article",
+    "aside",
+    "blockquote",
+    "center",
+    "details",
+    "dialog",
+    "dir",
+    "div",
+    "dl",
+    "fieldset",
+    "figcaption",
+    "figure",
+    "footer",
+    "header",
+    "hgroup",
+    "main",
+    "menu",
+    "nav",
+    "ol",
+    "p",
+    "search",
+    "section",
+    "summary",
+    "ul",
+]);
+const blockEndTags = new Set([...closesParagraph, "button", "listing", "pre"]);
+blockEndTags.delete("p");
+const tableSections = new Set(["tbody", "tfoot", "thead"]);
+const tableCells = new Set(["td", "th"]);
+const tableStructure = new Set([
+    "caption",
+    "col",
+    "colgroup",
+    "tbody",
+    "td",
+    "tfoot",
+    "th",
+    "thead",
+    "tr",
+]);
+const fosterParentTargets = new Set(["table", "tbody", "tfoot", "thead", "tr"]);
+const foreignBreakoutElements = new Set([
+    "b",
+    "big",
+    "blockquote",
+    "body",
+    "br",
+    "center",
+    "code",
+    "dd",
+    "div",
+    "dl",
+    "dt",
+    "em",
+    "embed",
+    "h1",
+    "h2",
+    "h3",
+    "h4",
+    "h5",
+    "h6",
+    "head",
+    "hr",
+    "i",
+    "img",
+    "li",
+    "listing",
+    "menu",
+    "meta",
+    "nobr",
+    "ol",
+    "p",
+    "pre",
+    "ruby",
+    "s",
+    "small",
+    "span",
+    "strong",
+    "strike",
+    "sub",
+    "sup",
+    "table",
+    "tt",
+    "u",
+    "ul",
+    "var",
+]);
+
+const reLeadingWhitespace = /^[\t\n\f\r ]+/;
+const reOnlyWhitespace = /^[\t\n\f\r ]*$/;
+
+/** An entry in the list of active formatting elements. `null` is a marker. */
+type FormattingEntry = { element: TreeElement; token: StartTagToken } | null;
+
+interface InsertionLocation {
+    parent: TreeParent;
+    /** The node to insert before. `null` appends to the parent. */
+    before: TreeNode | null;
+}
+
+export class TreeBuilder {
+    /** The root of the constructed tree. */
+    public document: TreeDocument = { type: "document", children: [] };
+    /** The mode of the document, as determined by its doctype. */
+    public documentMode: DocumentMode = "no-quirks";
+    /** Indicates whether the self-closing flag of the last token was honored. */
+    public acknowledgedSelfClosing = false;
+
+    private mode = InsertionMode.Initial;
+    private originalMode = InsertionMode.Initial;
+    private readonly templateModes: InsertionMode[] = [];
+    private readonly openElements: TreeElement[] = [];
+    private readonly activeFormattingElements: FormattingEntry[] = [];
+    private headElement: TreeElement | null = null;
+    private formElement: TreeElement | null = null;
+    private framesetOk = true;
+    private fosterParenting = false;
+    /** Drop a leading newline after `<pre>`, `<listing>` and `<textarea>`. */
+    private skipNextNewline = false;
+    private pendingTableCharacters: CharactersToken[] = [];
+    /** The token that is currently being processed. */
+    private token: Token | null = null;
+    /** Indicates whether the current end tag already closed an element. */
+    private endTagMatched = false;
+    /** The element whose content is parsed, when parsing a fragment. */
+    private context: TreeElement | null = null;
+    /** The implied `<html>` element that contains a fragment. */
+    private fragmentRoot: TreeElement | null = null;
+
+    /**
+     * @param textElements The elements whose content is consumed as text by
+     * the `Tokenizer`.
+     */
+    constructor(
+        private readonly textElements: ReadonlyMap<string, TextElementKind>,
+    ) {}
+
+    /** The number of elements that are currently open. */
+    public get depth(): number {
+        return this.openElements.length;
+    }
+
+    /**
+     * The constructed nodes: the children of the document or, when parsing a
+     * fragment, the children of the implied `<html>` element.
+     */
+    public get nodes(): TreeNode[] {
+        return (this.fragmentRoot ?? this.document).children;
+    }
+
+    public reset(): void {
+        this.document = { type: "document", children: [] };
+        this.documentMode = "no-quirks";
+        this.mode = InsertionMode.Initial;
+        this.originalMode = InsertionMode.Initial;
+        this.templateModes.length = 0;
+        this.openElements.length = 0;
+        this.activeFormattingElements.length = 0;
+        this.headElement = null;
+        this.formElement = null;
+        this.framesetOk = true;
+        this.fosterParenting = false;
+        this.skipNextNewline = false;
+        this.pendingTableCharacters = [];
+        this.token = null;
+        this.endTagMatched = false;
+        this.acknowledgedSelfClosing = false;
+        this.context = null;
+        this.fragmentRoot = null;
+    }
+
+    /**
+     * Prepares parsing the content of an element with the given name, like
+     * setting `innerHTML`. Has to be called before any tokens are processed.
+     *
+     * @param name The name of the context element. `svg` and `math` are
+     * elements in foreign content, all other names are HTML elements.
+     * @see https://html.spec.whatwg.org/multipage/parsing.html#parsing-html-fragments
+     */
+    public startFragment(name: string): void {
+        // The elements don't correspond to any input.
+        this.token = { type: TokenType.EOF, startIndex: 0, endIndex: 0 };
+
+        this.context = this.createImpliedElement(name);
+        this.context.namespace =
+            name === "svg"
+                ? Namespace.SVG
+                : name === "math"
+                  ? Namespace.MathML
+                  : Namespace.HTML;
+
+        this.fragmentRoot = this.createImpliedElement("html");
+        this.insertNode(this.fragmentRoot, {
+            parent: this.document,
+            before: null,
+        });
+        this.openElements.push(this.fragmentRoot);
+
+        if (name === "template") {
+            this.templateModes.push(InsertionMode.InTemplate);
+        }
+        this.resetInsertionMode();
+        this.token = null;
+    }
+
+    /**
+     * Processes a single token.
+     *
+     * @param token The token to process.
+     */
+    public process(token: Token): void {
+        if (this.skipNextNewline) {
+            if (token.type === TokenType.Characters) {
+                if (token.data.charCodeAt(0) === 0x0a) {
+                    token = {
+                        ...token,
+                        data: token.data.slice(1),
+                        startIndex: Math.min(
+                            token.startIndex + 1,
+                            token.endIndex,
+                        ),
+                    };
+                }
+                if (token.data === "") return;
+            }
+            this.skipNextNewline = false;
+        }
+
+        this.token = token;
+        this.endTagMatched = false;
+        this.acknowledgedSelfClosing = false;
+        this.dispatch(token);
+    }
+
+    /** Signals the end of the input. */
+    public end(index: number): void {
+        this.process({
+            type: TokenType.EOF,
+            startIndex: index,
+            endIndex: index,
+        });
+    }
+
+    // The tree construction dispatcher
+
+    private dispatch(token: Token): void {
+        if (this.isInForeignContent(token)) {
+            this.processInForeignContent(token);
+        } else {
+            this.processInMode(token, this.mode);
+        }
+    }
+
+    private isInForeignContent(token: Token): boolean {
+        const node = this.adjustedCurrentNode();
+
+        if (
+            !node ||
+            node.namespace === Namespace.HTML ||
+            token.type === TokenType.EOF
+        ) {
+            return false;
+        }
+
+        if (isMathMLTextIntegrationPoint(node)) {
+            if (token.type === TokenType.Characters) return false;
+            if (
+                token.type === TokenType.StartTag &&
+                token.name !== "mglyph" &&
+                token.name !== "malignmark"
+            ) {
+                return false;
+            }
+        }
+
+        if (
+            node.namespace === Namespace.MathML &&
+            node.name === "annotation-xml" &&
+            token.type === TokenType.StartTag &&
+            token.name === "svg"
+        ) {
+            return false;
+        }
+
+        return !(
+            isHtmlIntegrationPoint(node) &&
+            (token.type === TokenType.StartTag ||
+                token.type === TokenType.Characters)
+        );
+    }
+
+    private processInMode(token: Token, mode: InsertionMode): void {
+        switch (mode) {
+            case InsertionMode.Initial: {
+                this.initial(token);
+                break;
+            }
+            case InsertionMode.BeforeHtml: {
+                this.beforeHtml(token);
+                break;
+            }
+            case InsertionMode.BeforeHead: {
+                this.beforeHead(token);
+                break;
+            }
+            case InsertionMode.InHead: {
+                this.inHead(token);
+                break;
+            }
+            case InsertionMode.InHeadNoscript: {
+                this.inHeadNoscript(token);
+                break;
+            }
+            case InsertionMode.AfterHead: {
+                this.afterHead(token);
+                break;
+            }
+            case InsertionMode.InBody: {
+                this.inBody(token);
+                break;
+            }
+            case InsertionMode.Text: {
+                this.text(token);
+                break;
+            }
+            case InsertionMode.InTable: {
+                this.inTable(token);
+                break;
+            }
+            case InsertionMode.InTableText: {
+                this.inTableText(token);
+                break;
+            }
+            case InsertionMode.InCaption: {
+                this.inCaption(token);
+                break;
+            }
+            case InsertionMode.InColumnGroup: {
+                this.inColumnGroup(token);
+                break;
+            }
+            case InsertionMode.InTableBody: {
+                this.inTableBody(token);
+                break;
+            }
+            case InsertionMode.InRow: {
+                this.inRow(token);
+                break;
+            }
+            case InsertionMode.InCell: {
+                this.inCell(token);
+                break;
+            }
+            case InsertionMode.InSelect: {
+                this.inSelect(token);
+                break;
+            }
+            case InsertionMode.InSelectInTable: {
+                this.inSelectInTable(token);
+                break;
+            }
+            case InsertionMode.InTemplate: {
+                this.inTemplate(token);
+                break;
+            }
+            case InsertionMode.AfterBody: {
+                this.afterBody(token);
+                break;
+            }
+            case InsertionMode.InFrameset: {
+                this.inFrameset(token);
+                break;
+            }
+            case InsertionMode.AfterFrameset: {
+                this.afterFrameset(token);
+                break;
+            }
+            case InsertionMode.AfterAfterBody: {
+                this.afterAfterBody(token);
+                break;
+            }
+            case InsertionMode.AfterAfterFrameset: {
+                this.afterAfterFrameset(token);
+                break;
+            }
+        }
+    }
+
+    /**
+     * Handles leading whitespace of a character token with `handle`, and
+     * returns the remaining characters (if any).
+     */
+    private splitWhitespace(
+        token: Token,
+        handle: ((whitespace: CharactersToken) => void) | null,
+    ): Token | null {
+        if (token.type !== TokenType.Characters) return token;
+
+        const match = reLeadingWhitespace.exec(token.data);
+        if (!match) return token;
+
+        const { length } = match[0];
+        if (handle) {
+            handle({
+                ...token,
+                data: match[0],
+                endIndex: Math.min(
+                    token.startIndex + length - 1,
+                    token.endIndex,
+                ),
+            });
+        }
+
+        if (length === token.data.length) return null;
+
+        return (this.token = {
+            ...token,
+            data: token.data.slice(length),
+            startIndex: Math.min(token.startIndex + length, token.endIndex),
+        });
+    }
+
+    // Insertion modes
+
+    private initial(token: Token): void {
+        const rest = this.splitWhitespace(token, null);
+        if (!rest) return;
+
+        if (rest.type === TokenType.Comment) {
+            this.insertNode(rest.node, {
+                parent: this.document,
+                before: null,
+            });
+        } else if (rest.type === TokenType.Doctype) {
+            rest.node.doctype = rest.doctype;
+            this.insertNode(rest.node, {
+                parent: this.document,
+                before: null,
+            });
+            this.documentMode = getDocumentMode(rest.doctype);
+            this.mode = InsertionMode.BeforeHtml;
+        } else {
+            this.documentMode = "quirks";
+            this.mode = InsertionMode.BeforeHtml;
+            this.beforeHtml(rest);
+        }
+    }
+
+    private beforeHtml(token: Token): void {
+        const rest = this.splitWhitespace(token, null);
+        if (!rest || rest.type === TokenType.Doctype) return;
+
+        if (rest.type === TokenType.Comment) {
+            this.insertNode(rest.node, {
+                parent: this.document,
+                before: null,
+            });
+        } else if (rest.type === TokenType.StartTag && rest.name === "html") {
+            const html = this.createElement(rest, Namespace.HTML, false);
+            this.insertNode(html, { parent: this.document, before: null });
+            this.openElements.push(html);
+            this.mode = InsertionMode.BeforeHead;
+        } else if (
+            rest.type === TokenType.EndTag &&
+            !isOneOf(rest.name, "head", "body", "html", "br")
+        ) {
+            // Ignore the token.
+        } else {
+            const html = this.createImpliedElement("html");
+            this.insertNode(html, { parent: this.document, before: null });
+            this.openElements.push(html);
+            this.mode = InsertionMode.BeforeHead;
+            this.beforeHead(rest);
+        }
+    }
+
+    private beforeHead(token: Token): void {
+        const rest = this.splitWhitespace(token, null);
+        if (!rest || rest.type === TokenType.Doctype) return;
+
+        if (rest.type === TokenType.Comment) {
+            this.insertComment(rest);
+        } else if (rest.type === TokenType.StartTag && rest.name === "html") {
+            this.inBody(rest);
+        } else if (rest.type === TokenType.StartTag && rest.name === "head") {
+            this.headElement = this.insertHtmlElement(rest);
+            this.mode = InsertionMode.InHead;
+        } else if (
+            rest.type === TokenType.EndTag &&
+            !isOneOf(rest.name, "head", "body", "html", "br")
+        ) {
+            // Ignore the token.
+        } else {
+            this.headElement = this.insertImpliedElement("head");
+            this.mode = InsertionMode.InHead;
+            this.inHead(rest);
+        }
+    }
+
+    private inHead(token: Token): void {
+        const rest = this.splitWhitespace(token, (ws) =>
+            this.insertCharacters(ws),
+        );
+        if (!rest || rest.type === TokenType.Doctype) return;
+
+        switch (rest.type) {
+            case TokenType.Comment: {
+                this.insertComment(rest);
+
+                break;
+            }
+            case TokenType.StartTag: {
+                switch (rest.name) {
+                    case "html": {
+                        this.inBody(rest);
+                        return;
+                    }
+                    case "base":
+                    case "basefont":
+                    case "bgsound":
+                    case "link":
+                    case "meta": {
+                        this.insertHtmlElement(rest);
+                        this.pop();
+                        return;
+                    }
+                    case "title":
+                    case "noframes":
+                    case "style":
+                    case "script": {
+                        this.insertRawText(rest);
+                        return;
+                    }
+                    case "noscript": {
+                        if (this.textElements.has("noscript")) {
+                            // Scripting is enabled.
+                            this.insertRawText(rest);
+                            return;
+                        }
+
+                        // Scripting is disabled, so `noscript` content is parsed as markup.
+                        this.insertHtmlElement(rest);
+                        this.mode = InsertionMode.InHeadNoscript;
+                        return;
+                    }
+                    case "template": {
+                        this.insertHtmlElement(rest);
+                        this.activeFormattingElements.push(null);
+                        this.framesetOk = false;
+                        this.mode = InsertionMode.InTemplate;
+                        this.templateModes.push(InsertionMode.InTemplate);
+                        return;
+                    }
+                    case "head": {
+                        // Ignore the token.
+                        return;
+                    }
+                }
+                this.leaveHead(rest);
+
+                break;
+            }
+            case TokenType.EndTag: {
+                if (rest.name === "head") {
+                    this.pop();
+                    this.mode = InsertionMode.AfterHead;
+                } else if (rest.name === "template") {
+                    this.closeTemplate();
+                } else if (isOneOf(rest.name, "body", "html", "br")) {
+                    this.leaveHead(rest);
+                }
+
+                break;
+            }
+            default: {
+                this.leaveHead(rest);
+            }
+        }
+    }
+
+    private leaveHead(token: Token): void {
+        this.pop();
+        this.mode = InsertionMode.AfterHead;
+        this.afterHead(token);
+    }
+
+    private closeTemplate(): void {
+        if (!this.hasOpenElement("template")) return;
+
+        this.generateImpliedEndTags(impliedEndTagsThoroughly);
+        this.popUntil("template");
+        this.clearActiveFormattingElementsToMarker();
+        this.templateModes.pop();
+        this.resetInsertionMode();
+    }
+
+    private inHeadNoscript(token: Token): void {
+        if (token.type === TokenType.Doctype) return;
+
+        switch (token.type) {
+            case TokenType.StartTag: {
+                if (token.name === "html") {
+                    this.inBody(token);
+                    return;
+                }
+                if (
+                    isOneOf(
+                        token.name,
+                        "basefont",
+                        "bgsound",
+                        "link",
+                        "meta",
+                        "noframes",
+                        "style",
+                    )
+                ) {
+                    this.inHead(token);
+                    return;
+                }
+                if (token.name === "head" || token.name === "noscript") return;
+
+                break;
+            }
+            case TokenType.EndTag: {
+                if (token.name === "noscript") {
+                    this.pop();
+                    this.mode = InsertionMode.InHead;
+                    return;
+                }
+                if (token.name !== "br") return;
+
+                break;
+            }
+            case TokenType.Comment: {
+                this.inHead(token);
+                return;
+            }
+            default: {
+                // Anything else is handled below.
+                break;
+            }
+        }
+
+        const rest = this.splitWhitespace(token, (ws) => this.inHead(ws));
+        if (!rest) return;
+
+        this.pop();
+        this.mode = InsertionMode.InHead;
+        this.inHead(rest);
+    }
+
+    private afterHead(token: Token): void {
+        const rest = this.splitWhitespace(token, (ws) =>
+            this.insertCharacters(ws),
+        );
+        if (!rest || rest.type === TokenType.Doctype) return;
+
+        if (rest.type === TokenType.Comment) {
+            this.insertComment(rest);
+            return;
+        }
+
+        if (rest.type === TokenType.StartTag) {
+            if (rest.name === "html") {
+                this.inBody(rest);
+                return;
+            }
+            if (rest.name === "body") {
+                this.insertHtmlElement(rest);
+                this.framesetOk = false;
+                this.mode = InsertionMode.InBody;
+                return;
+            }
+            if (rest.name === "frameset") {
+                this.insertHtmlElement(rest);
+                this.mode = InsertionMode.InFrameset;
+                return;
+            }
+            if (headElements.has(rest.name)) {
+                // Re-open the head element for the duration of the token.
+                const head = this.headElement!;
+                this.openElements.push(head);
+                this.inHead(rest);
+                this.removeFromStack(head);
+                return;
+            }
+            if (rest.name === "head") return;
+        } else if (rest.type === TokenType.EndTag) {
+            if (rest.name === "template") {
+                this.inHead(rest);
+                return;
+            }
+            if (!isOneOf(rest.name, "body", "html", "br")) return;
+        }
+
+        this.insertImpliedElement("body");
+        this.mode = InsertionMode.InBody;
+        this.inBody(rest);
+    }
+
+    private inBody(token: Token): void {
+        switch (token.type) {
+            case TokenType.Characters: {
+                this.reconstructActiveFormattingElements();
+                this.insertCharacters(token);
+                if (!reOnlyWhitespace.test(token.data)) {
+                    this.framesetOk = false;
+                }
+                return;
+            }
+            case TokenType.Comment: {
+                this.insertComment(token);
+                return;
+            }
+            case TokenType.Doctype: {
+                return;
+            }
+            case TokenType.StartTag: {
+                this.inBodyStartTag(token);
+                return;
+            }
+            case TokenType.EndTag: {
+                this.inBodyEndTag(token);
+                return;
+            }
+            case TokenType.EOF: {
+                if (this.templateModes.length > 0) {
+                    this.inTemplate(token);
+                } else {
+                    this.stopParsing();
+                }
+            }
+        }
+    }
+
+    private inBodyStartTag(token: StartTagToken): void {
+        const { name } = token;
+
+        if (headElements.has(name)) {
+            this.inHead(token);
+            return;
+        }
+        if (closesParagraph.has(name)) {
+            this.closeParagraphInButtonScope();
+            this.insertHtmlElement(token);
+            return;
+        }
+        if (headings.has(name)) {
+            this.closeParagraphInButtonScope();
+            if (headings.has(this.currentNode()!.name)) this.pop();
+            this.insertHtmlElement(token);
+            return;
+        }
+
+        switch (name) {
+            case "html": {
+                if (!this.hasOpenElement("template")) {
+                    this.mergeAttributes(this.openElements[0], token);
+                }
+                break;
+            }
+            case "body": {
+                const body = this.openElements[1] as TreeElement | undefined;
+                if (body?.name === "body" && !this.hasOpenElement("template")) {
+                    this.framesetOk = false;
+                    this.mergeAttributes(body, token);
+                }
+                break;
+            }
+            case "frameset": {
+                const body = this.openElements[1] as TreeElement | undefined;
+                if (body?.name !== "body" || !this.framesetOk) return;
+
+                this.detach(body);
+                while (this.openElements.length > 1) this.pop();
+                this.insertHtmlElement(token);
+                this.mode = InsertionMode.InFrameset;
+                break;
+            }
+            case "pre":
+            case "listing": {
+                this.closeParagraphInButtonScope();
+                this.insertHtmlElement(token);
+                this.skipNextNewline = true;
+                this.framesetOk = false;
+                break;
+            }
+            case "form": {
+                const inTemplate = this.hasOpenElement("template");
+                if (this.formElement && !inTemplate) return;
+
+                this.closeParagraphInButtonScope();
+                const form = this.insertHtmlElement(token);
+                if (!inTemplate) this.formElement = form;
+                break;
+            }
+            case "li":
+            case "dd":
+            case "dt": {
+                this.framesetOk = false;
+                this.closeListItem(name === "li" ? ["li"] : ["dd", "dt"]);
+                this.closeParagraphInButtonScope();
+                this.insertHtmlElement(token);
+                break;
+            }
+            case "plaintext": {
+                this.closeParagraphInButtonScope();
+                this.insertHtmlElement(token);
+                break;
+            }
+            case "button": {
+                if (this.hasElementInScope("button", defaultScope)) {
+                    this.generateImpliedEndTags(impliedEndTags);
+                    this.popUntil("button");
+                }
+                this.reconstructActiveFormattingElements();
+                this.insertHtmlElement(token);
+                this.framesetOk = false;
+                break;
+            }
+            case "a": {
+                const existing = this.findFormattingElement("a");
+                if (existing) {
+                    this.adoptionAgency("a");
+                    this.removeFormattingElement(existing);
+                    this.removeFromStack(existing);
+                }
+                this.reconstructActiveFormattingElements();
+                this.pushFormattingElement(
+                    this.insertHtmlElement(token),
+                    token,
+                );
+                break;
+            }
+            case "nobr": {
+                this.reconstructActiveFormattingElements();
+                if (this.hasElementInScope("nobr", defaultScope)) {
+                    this.adoptionAgency("nobr");
+                    this.reconstructActiveFormattingElements();
+                }
+                this.pushFormattingElement(
+                    this.insertHtmlElement(token),
+                    token,
+                );
+                break;
+            }
+            case "b":
+            case "big":
+            case "code":
+            case "em":
+            case "font":
+            case "i":
+            case "s":
+            case "small":
+            case "strike":
+            case "strong":
+            case "tt":
+            case "u": {
+                this.reconstructActiveFormattingElements();
+                this.pushFormattingElement(
+                    this.insertHtmlElement(token),
+                    token,
+                );
+                break;
+            }
+            case "applet":
+            case "marquee":
+            case "object": {
+                this.reconstructActiveFormattingElements();
+                this.insertHtmlElement(token);
+                this.activeFormattingElements.push(null);
+                this.framesetOk = false;
+                break;
+            }
+            case "table": {
+                if (this.documentMode !== "quirks") {
+                    this.closeParagraphInButtonScope();
+                }
+                this.insertHtmlElement(token);
+                this.framesetOk = false;
+                this.mode = InsertionMode.InTable;
+                break;
+            }
+            case "area":
+            case "br":
+            case "embed":
+            case "img":
+            case "keygen":
+            case "wbr": {
+                this.reconstructActiveFormattingElements();
+                this.insertHtmlElement(token);
+                this.pop();
+                this.framesetOk = false;
+                break;
+            }
+            case "input": {
+                this.reconstructActiveFormattingElements();
+                this.insertHtmlElement(token);
+                this.pop();
+                if (!isHiddenInput(token)) this.framesetOk = false;
+                break;
+            }
+            case "param":
+            case "source":
+            case "track": {
+                this.insertHtmlElement(token);
+                this.pop();
+                break;
+            }
+            case "hr": {
+                this.closeParagraphInButtonScope();
+                this.insertHtmlElement(token);
+                this.pop();
+                this.framesetOk = false;
+                break;
+            }
+            case "image": {
+                this.token = { ...token, name: "img" };
+                this.inBodyStartTag(this.token);
+                break;
+            }
+            case "textarea": {
+                this.skipNextNewline = true;
+                this.framesetOk = false;
+                this.insertRawText(token);
+                break;
+            }
+            case "xmp": {
+                this.closeParagraphInButtonScope();
+                this.reconstructActiveFormattingElements();
+                this.framesetOk = false;
+                this.insertRawText(token);
+                break;
+            }
+            case "iframe": {
+                this.framesetOk = false;
+                this.insertRawText(token);
+                break;
+            }
+            case "noembed": {
+                this.insertRawText(token);
+                break;
+            }
+            case "noscript": {
+                if (this.textElements.has("noscript")) {
+                    this.insertRawText(token);
+                } else {
+                    this.reconstructActiveFormattingElements();
+                    this.insertHtmlElement(token);
+                }
+                break;
+            }
+            case "select": {
+                this.reconstructActiveFormattingElements();
+                this.insertHtmlElement(token);
+                this.framesetOk = false;
+                this.mode =
+                    this.mode === InsertionMode.InTable ||
+                    this.mode === InsertionMode.InCaption ||
+                    this.mode === InsertionMode.InTableBody ||
+                    this.mode === InsertionMode.InRow ||
+                    this.mode === InsertionMode.InCell
+                        ? InsertionMode.InSelectInTable
+                        : InsertionMode.InSelect;
+                break;
+            }
+            case "optgroup":
+            case "option": {
+                if (this.currentNode()!.name === "option") this.pop();
+                this.reconstructActiveFormattingElements();
+                this.insertHtmlElement(token);
+                break;
+            }
+            case "rb":
+            case "rtc": {
+                if (this.hasElementInScope("ruby", defaultScope)) {
+                    this.generateImpliedEndTags(impliedEndTags);
+                }
+                this.insertHtmlElement(token);
+                break;
+            }
+            case "rp":
+            case "rt": {
+                if (this.hasElementInScope("ruby", defaultScope)) {
+                    this.generateImpliedEndTags(impliedEndTags, "rtc");
+                }
+                this.insertHtmlElement(token);
+                break;
+            }
+            case "math": {
+                this.reconstructActiveFormattingElements();
+                this.insertForeignElement(token, Namespace.MathML);
+                break;
+            }
+            case "svg": {
+                this.reconstructActiveFormattingElements();
+                this.insertForeignElement(token, Namespace.SVG);
+                break;
+            }
+            case "caption":
+            case "col":
+            case "colgroup":
+            case "frame":
+            case "head":
+            case "tbody":
+            case "td":
+            case "tfoot":
+            case "th":
+            case "thead":
+            case "tr": {
+                // Ignore the token.
+                break;
+            }
+            default: {
+                this.reconstructActiveFormattingElements();
+                this.insertHtmlElement(token);
+            }
+        }
+    }
+
+    /** Closes an open `li`, `dd` or `dt` element before a new one is inserted. */
+    private closeListItem(names: string[]): void {
+        for (let index = this.openElements.length - 1; index > 0; index--) {
+            const node = this.openElements[index];
+
+            if (
+                node.namespace === Namespace.HTML &&
+                names.includes(node.name)
+            ) {
+                this.generateImpliedEndTags(impliedEndTags, node.name);
+                this.popUntil(node.name);
+                return;
+            }
+
+            if (isSpecial(node) && !isOneOf(node.name, "address", "div", "p")) {
+                return;
+            }
+        }
+    }
+
+    private inBodyEndTag(token: EndTagToken): void {
+        const { name } = token;
+
+        if (blockEndTags.has(name)) {
+            if (!this.hasElementInScope(name, defaultScope)) return;
+
+            this.generateImpliedEndTags(impliedEndTags);
+            this.popUntil(name);
+            return;
+        }
+        if (headings.has(name)) {
+            if (!this.hasAnyElementInScope(headings, defaultScope)) return;
+
+            this.generateImpliedEndTags(impliedEndTags);
+            let node;
+            do {
+                node = this.pop();
+            } while (!headings.has(node.name));
+            return;
+        }
+        if (formattingElements.has(name)) {
+            this.adoptionAgency(name);
+            return;
+        }
+
+        switch (name) {
+            case "template": {
+                this.inHead(token);
+                break;
+            }
+            case "body":
+            case "html": {
+                if (!this.hasElementInScope("body", defaultScope)) return;
+
+                // The body element stays open, but was closed by the end tag.
+                this.close(this.lastOpenElement("body")!);
+                this.mode = InsertionMode.AfterBody;
+                if (name === "html") this.afterBody(token);
+                break;
+            }
+            case "form": {
+                if (this.hasOpenElement("template")) {
+                    if (!this.hasElementInScope("form", defaultScope)) return;
+
+                    this.generateImpliedEndTags(impliedEndTags);
+                    this.popUntil("form");
+                } else {
+                    const node = this.formElement;
+                    this.formElement = null;
+                    if (!node || !this.isInScope(node, defaultScope)) return;
+
+                    this.generateImpliedEndTags(impliedEndTags);
+                    this.removeFromStack(node);
+                }
+                break;
+            }
+            case "p": {
+                if (!this.hasElementInScope("p", buttonScope)) {
+                    this.insertImpliedElement("p");
+                }
+                this.closeParagraph();
+                break;
+            }
+            case "li": {
+                if (!this.hasElementInScope("li", listItemScope)) return;
+
+                this.generateImpliedEndTags(impliedEndTags, "li");
+                this.popUntil("li");
+                break;
+            }
+            case "dd":
+            case "dt": {
+                if (!this.hasElementInScope(name, defaultScope)) return;
+
+                this.generateImpliedEndTags(impliedEndTags, name);
+                this.popUntil(name);
+                break;
+            }
+            case "applet":
+            case "marquee":
+            case "object": {
+                if (!this.hasElementInScope(name, defaultScope)) return;
+
+                this.generateImpliedEndTags(impliedEndTags);
+                this.popUntil(name);
+                this.clearActiveFormattingElementsToMarker();
+                break;
+            }
+            case "br": {
+                // Treated as a `<br>` start tag.
+                this.inBodyStartTag({
+                    type: TokenType.StartTag,
+                    name: "br",
+                    attribs: {},
+                    attributes: [],
+                    selfClosing: false,
+                    startIndex: token.startIndex,
+                    endIndex: token.endIndex,
+                });
+                break;
+            }
+            default: {
+                this.anyOtherEndTag(name);
+            }
+        }
+    }
+
+    private anyOtherEndTag(name: string): void {
+        for (let index = this.openElements.length - 1; index >= 0; index--) {
+            const node = this.openElements[index];
+
+            if (node.namespace === Namespace.HTML && node.name === name) {
+                this.generateImpliedEndTags(impliedEndTags, name);
+                while (this.openElements.length > index) this.pop();
+                return;
+            }
+
+            if (isSpecial(node)) return;
+        }
+    }
+
+    private text(token: Token): void {
+        switch (token.type) {
+            case TokenType.Characters: {
+                this.insertCharacters(token);
+
+                break;
+            }
+            case TokenType.EOF: {
+                this.pop();
+                this.mode = this.originalMode;
+                this.processInMode(token, this.mode);
+
+                break;
+            }
+            case TokenType.EndTag: {
+                this.pop();
+                this.mode = this.originalMode;
+
+                break;
+            }
+            case TokenType.Comment: {
+                this.insertComment(token);
+
+                break;
+            }
+            default: {
+                // Ignore the token.
+                break;
+            }
+        }
+    }
+
+    private inTable(token: Token): void {
+        switch (token.type) {
+            case TokenType.Characters: {
+                if (
+                    fosterParentTargets.has(this.currentNode()!.name) ||
+                    this.currentNode()!.name === "template"
+                ) {
+                    this.pendingTableCharacters = [];
+                    this.originalMode = this.mode;
+                    this.mode = InsertionMode.InTableText;
+                    this.inTableText(token);
+                    return;
+                }
+                break;
+            }
+            case TokenType.Comment: {
+                this.insertComment(token);
+                return;
+            }
+            case TokenType.Doctype: {
+                return;
+            }
+            case TokenType.StartTag: {
+                const { name } = token;
+                if (name === "caption") {
+                    this.clearStackBackTo(tableScope);
+                    this.activeFormattingElements.push(null);
+                    this.insertHtmlElement(token);
+                    this.mode = InsertionMode.InCaption;
+                    return;
+                }
+                if (name === "colgroup") {
+                    this.clearStackBackTo(tableScope);
+                    this.insertHtmlElement(token);
+                    this.mode = InsertionMode.InColumnGroup;
+                    return;
+                }
+                if (name === "col") {
+                    this.clearStackBackTo(tableScope);
+                    this.insertImpliedElement("colgroup");
+                    this.mode = InsertionMode.InColumnGroup;
+                    this.inColumnGroup(token);
+                    return;
+                }
+                if (tableSections.has(name)) {
+                    this.clearStackBackTo(tableScope);
+                    this.insertHtmlElement(token);
+                    this.mode = InsertionMode.InTableBody;
+                    return;
+                }
+                if (tableCells.has(name) || name === "tr") {
+                    this.clearStackBackTo(tableScope);
+                    this.insertImpliedElement("tbody");
+                    this.mode = InsertionMode.InTableBody;
+                    this.inTableBody(token);
+                    return;
+                }
+                if (name === "table") {
+                    if (!this.hasElementInScope("table", tableScope)) return;
+                    this.popUntil("table");
+                    this.resetInsertionMode();
+                    this.processInMode(token, this.mode);
+                    return;
+                }
+                if (
+                    name === "style" ||
+                    name === "script" ||
+                    name === "template"
+                ) {
+                    this.inHead(token);
+                    return;
+                }
+                if (name === "input" && isHiddenInput(token)) {
+                    this.insertHtmlElement(token);
+                    this.pop();
+                    return;
+                }
+                if (name === "form") {
+                    if (
+                        this.formElement !== null ||
+                        this.hasOpenElement("template")
+                    ) {
+                        return;
+                    }
+                    this.formElement = this.insertHtmlElement(token);
+                    this.pop();
+                    return;
+                }
+                break;
+            }
+            case TokenType.EndTag: {
+                const { name } = token;
+                if (name === "table") {
+                    if (!this.hasElementInScope("table", tableScope)) return;
+                    this.popUntil("table");
+                    this.resetInsertionMode();
+                    return;
+                }
+                if (
+                    name === "body" ||
+                    name === "html" ||
+                    tableStructure.has(name)
+                ) {
+                    return;
+                }
+                if (name === "template") {
+                    this.inHead(token);
+                    return;
+                }
+                break;
+            }
+            case TokenType.EOF: {
+                this.inBody(token);
+                return;
+            }
+        }
+
+        // Anything else: Process the token with foster parenting enabled.
+        this.fosterParenting = true;
+        this.inBody(token);
+        this.fosterParenting = false;
+    }
+
+    private inTableText(token: Token): void {
+        if (token.type === TokenType.Characters) {
+            this.pendingTableCharacters.push(token);
+            return;
+        }
+
+        const pending = this.pendingTableCharacters;
+        this.pendingTableCharacters = [];
+
+        if (pending.some(({ data }) => !reOnlyWhitespace.test(data))) {
+            this.fosterParenting = true;
+            for (const chars of pending) this.inBody(chars);
+            this.fosterParenting = false;
+        } else {
+            for (const chars of pending) this.insertCharacters(chars);
+        }
+
+        this.mode = this.originalMode;
+        this.processInMode(token, this.mode);
+    }
+
+    private closeCaption(): boolean {
+        if (!this.hasElementInScope("caption", tableScope)) return false;
+
+        this.generateImpliedEndTags(impliedEndTags);
+        this.popUntil("caption");
+        this.clearActiveFormattingElementsToMarker();
+        this.mode = InsertionMode.InTable;
+        return true;
+    }
+
+    private inCaption(token: Token): void {
+        if (token.type === TokenType.EndTag && token.name === "caption") {
+            this.closeCaption();
+        } else if (
+            (token.type === TokenType.StartTag &&
+                tableStructure.has(token.name)) ||
+            (token.type === TokenType.EndTag && token.name === "table")
+        ) {
+            if (this.closeCaption()) this.inTable(token);
+        } else if (
+            token.type === TokenType.EndTag &&
+            (isOneOf(token.name, "body", "html") ||
+                (tableStructure.has(token.name) && token.name !== "caption"))
+        ) {
+            // Ignore the token.
+        } else {
+            this.inBody(token);
+        }
+    }
+
+    private inColumnGroup(token: Token): void {
+        const rest = this.splitWhitespace(token, (ws) =>
+            this.insertCharacters(ws),
+        );
+        if (!rest || rest.type === TokenType.Doctype) return;
+
+        if (rest.type === TokenType.Comment) {
+            this.insertComment(rest);
+            return;
+        }
+        switch (rest.type) {
+            case TokenType.StartTag: {
+                if (rest.name === "html") {
+                    this.inBody(rest);
+                    return;
+                }
+                if (rest.name === "col") {
+                    this.insertHtmlElement(rest);
+                    this.pop();
+                    return;
+                }
+                if (rest.name === "template") {
+                    this.inHead(rest);
+                    return;
+                }
+
+                break;
+            }
+            case TokenType.EndTag: {
+                if (rest.name === "colgroup") {
+                    if (this.currentNode()!.name !== "colgroup") return;
+                    this.pop();
+                    this.mode = InsertionMode.InTable;
+                    return;
+                }
+                if (rest.name === "col") return;
+                if (rest.name === "template") {
+                    this.inHead(rest);
+                    return;
+                }
+
+                break;
+            }
+            case TokenType.EOF: {
+                this.inBody(rest);
+                return;
+            }
+            default: {
+                // Anything else is handled below.
+                break;
+            }
+        }
+
+        if (this.currentNode()!.name !== "colgroup") return;
+        this.pop();
+        this.mode = InsertionMode.InTable;
+        this.inTable(rest);
+    }
+
+    private inTableBody(token: Token): void {
+        if (token.type === TokenType.StartTag) {
+            if (token.name === "tr") {
+                this.clearStackBackTo(tableBodyContext);
+                this.insertHtmlElement(token);
+                this.mode = InsertionMode.InRow;
+                return;
+            }
+            if (tableCells.has(token.name)) {
+                this.clearStackBackTo(tableBodyContext);
+                this.insertImpliedElement("tr");
+                this.mode = InsertionMode.InRow;
+                this.inRow(token);
+                return;
+            }
+            if (
+                isOneOf(token.name, "caption", "col", "colgroup") ||
+                tableSections.has(token.name)
+            ) {
+                this.leaveTableBody(token);
+                return;
+            }
+        } else if (token.type === TokenType.EndTag) {
+            if (tableSections.has(token.name)) {
+                if (!this.hasElementInScope(token.name, tableScope)) return;
+                this.clearStackBackTo(tableBodyContext);
+                this.pop();
+                this.mode = InsertionMode.InTable;
+                return;
+            }
+            if (token.name === "table") {
+                this.leaveTableBody(token);
+                return;
+            }
+            if (
+                isOneOf(token.name, "body", "html", "tr") ||
+                (tableStructure.has(token.name) &&
+                    !tableSections.has(token.name))
+            ) {
+                return;
+            }
+        }
+
+        this.inTable(token);
+    }
+
+    private leaveTableBody(token: Token): void {
+        if (!this.hasAnyElementInScope(tableSections, tableScope)) return;
+
+        this.clearStackBackTo(tableBodyContext);
+        this.pop();
+        this.mode = InsertionMode.InTable;
+        this.inTable(token);
+    }
+
+    private closeRow(): boolean {
+        if (!this.hasElementInScope("tr", tableScope)) return false;
+
+        this.clearStackBackTo(tableRowContext);
+        this.pop();
+        this.mode = InsertionMode.InTableBody;
+        return true;
+    }
+
+    private inRow(token: Token): void {
+        if (token.type === TokenType.StartTag) {
+            if (tableCells.has(token.name)) {
+                this.clearStackBackTo(tableRowContext);
+                this.insertHtmlElement(token);
+                this.mode = InsertionMode.InCell;
+                this.activeFormattingElements.push(null);
+                return;
+            }
+            if (tableStructure.has(token.name)) {
+                if (this.closeRow()) this.inTableBody(token);
+                return;
+            }
+        } else if (token.type === TokenType.EndTag) {
+            if (token.name === "tr") {
+                this.closeRow();
+                return;
+            }
+            if (token.name === "table") {
+                if (this.closeRow()) this.inTableBody(token);
+                return;
+            }
+            if (tableSections.has(token.name)) {
+                if (
+                    this.hasElementInScope(token.name, tableScope) &&
+                    this.closeRow()
+                ) {
+                    this.inTableBody(token);
+                }
+                return;
+            }
+            if (
+                isOneOf(token.name, "body", "html") ||
+                tableStructure.has(token.name)
+            ) {
+                return;
+            }
+        }
+
+        this.inTable(token);
+    }
+
+    private closeCell(): void {
+        this.generateImpliedEndTags(impliedEndTags);
+        let node;
+        do {
+            node = this.pop();
+        } while (!tableCells.has(node.name));
+        this.clearActiveFormattingElementsToMarker();
+        this.mode = InsertionMode.InRow;
+    }
+
+    private inCell(token: Token): void {
+        if (token.type === TokenType.EndTag) {
+            if (tableCells.has(token.name)) {
+                if (!this.hasElementInScope(token.name, tableScope)) return;
+                this.generateImpliedEndTags(impliedEndTags);
+                this.popUntil(token.name);
+                this.clearActiveFormattingElementsToMarker();
+                this.mode = InsertionMode.InRow;
+                return;
+            }
+            if (isOneOf(token.name, "body", "caption", "col", "colgroup")) {
+                return;
+            }
+            if (
+                token.name === "html" ||
+                token.name === "table" ||
+                token.name === "tr" ||
+                tableSections.has(token.name)
+            ) {
+                if (!this.hasElementInScope(token.name, tableScope)) return;
+                this.closeCell();
+                this.inRow(token);
+                return;
+            }
+        } else if (
+            token.type === TokenType.StartTag &&
+            tableStructure.has(token.name)
+        ) {
+            if (!this.hasAnyElementInScope(tableCells, tableScope)) return;
+            this.closeCell();
+            this.inRow(token);
+            return;
+        }
+
+        this.inBody(token);
+    }
+
+    private inSelect(token: Token): void {
+        switch (token.type) {
+            case TokenType.Characters: {
+                this.insertCharacters(token);
+                return;
+            }
+            case TokenType.Comment: {
+                this.insertComment(token);
+                return;
+            }
+            case TokenType.StartTag: {
+                const { name } = token;
+                switch (name) {
+                    case "html": {
+                        this.inBody(token);
+
+                        break;
+                    }
+                    case "option": {
+                        if (this.currentNode()!.name === "option") this.pop();
+                        this.insertHtmlElement(token);
+
+                        break;
+                    }
+                    case "optgroup":
+                    case "hr": {
+                        if (this.currentNode()!.name === "option") this.pop();
+                        if (this.currentNode()!.name === "optgroup") this.pop();
+                        this.insertHtmlElement(token);
+                        if (name === "hr") this.pop();
+
+                        break;
+                    }
+                    default: {
+                        if (
+                            isOneOf(
+                                name,
+                                "select",
+                                "input",
+                                "keygen",
+                                "textarea",
+                            )
+                        ) {
+                            if (
+                                !this.hasElementInScope("select", selectScope)
+                            ) {
+                                return;
+                            }
+                            this.popUntil("select");
+                            this.resetInsertionMode();
+                            if (name !== "select") {
+                                this.processInMode(token, this.mode);
+                            }
+                        } else if (name === "script" || name === "template") {
+                            this.inHead(token);
+                        }
+                    }
+                }
+                return;
+            }
+            case TokenType.EndTag: {
+                const { name } = token;
+                switch (name) {
+                    case "optgroup": {
+                        const previous = this.openElements[
+                            this.openElements.length - 2
+                        ] as TreeElement | undefined;
+                        if (
+                            this.currentNode()!.name === "option" &&
+                            previous?.name === "optgroup"
+                        ) {
+                            this.pop();
+                        }
+                        if (this.currentNode()!.name === "optgroup") this.pop();
+
+                        break;
+                    }
+                    case "option": {
+                        if (this.currentNode()!.name === "option") this.pop();
+
+                        break;
+                    }
+                    case "select": {
+                        if (!this.hasElementInScope("select", selectScope)) {
+                            return;
+                        }
+                        this.popUntil("select");
+                        this.resetInsertionMode();
+
+                        break;
+                    }
+                    case "template": {
+                        this.inHead(token);
+
+                        break;
+                    }
+                    default: {
+                        // Ignore the token.
+                        break;
+                    }
+                }
+                return;
+            }
+            case TokenType.EOF: {
+                this.inBody(token);
+                return;
+            }
+            case TokenType.Doctype: {
+                // Ignore the token.
+                break;
+            }
+        }
+    }
+
+    private inSelectInTable(token: Token): void {
+        if (
+            (token.type === TokenType.StartTag ||
+                token.type === TokenType.EndTag) &&
+            (token.name === "table" ||
+                (tableStructure.has(token.name) &&
+                    !isOneOf(token.name, "col", "colgroup")))
+        ) {
+            if (
+                token.type === TokenType.EndTag &&
+                !this.hasElementInScope(token.name, tableScope)
+            ) {
+                return;
+            }
+            this.popUntil("select");
+            this.resetInsertionMode();
+            this.processInMode(token, this.mode);
+            return;
+        }
+
+        this.inSelect(token);
+    }
+
+    private inTemplate(token: Token): void {
+        switch (token.type) {
+            case TokenType.Characters:
+            case TokenType.Comment:
+            case TokenType.Doctype: {
+                this.inBody(token);
+                return;
+            }
+            case TokenType.StartTag: {
+                const { name } = token;
+                if (headElements.has(name)) {
+                    this.inHead(token);
+                    return;
+                }
+
+                const mode =
+                    isOneOf(name, "caption", "colgroup") ||
+                    tableSections.has(name)
+                        ? InsertionMode.InTable
+                        : name === "col"
+                          ? InsertionMode.InColumnGroup
+                          : name === "tr"
+                            ? InsertionMode.InTableBody
+                            : tableCells.has(name)
+                              ? InsertionMode.InRow
+                              : InsertionMode.InBody;
+
+                this.templateModes[this.templateModes.length - 1] = mode;
+                this.mode = mode;
+                this.processInMode(token, mode);
+                return;
+            }
+            case TokenType.EndTag: {
+                if (token.name === "template") this.inHead(token);
+                return;
+            }
+            case TokenType.EOF: {
+                if (!this.hasOpenElement("template")) {
+                    this.stopParsing();
+                    return;
+                }
+                this.popUntil("template");
+                this.clearActiveFormattingElementsToMarker();
+                this.templateModes.pop();
+                this.resetInsertionMode();
+                this.processInMode(token, this.mode);
+            }
+        }
+    }
+
+    private afterBody(token: Token): void {
+        const rest = this.splitWhitespace(token, (ws) => this.inBody(ws));
+        if (!rest || rest.type === TokenType.Doctype) return;
+
+        if (rest.type === TokenType.Comment) {
+            this.insertNode(rest.node, {
+                parent: this.openElements[0],
+                before: null,
+            });
+        } else if (rest.type === TokenType.StartTag && rest.name === "html") {
+            this.inBody(rest);
+        } else if (rest.type === TokenType.EndTag && rest.name === "html") {
+            this.close(this.openElements[0]);
+            this.mode = InsertionMode.AfterAfterBody;
+        } else if (rest.type === TokenType.EOF) {
+            this.stopParsing();
+        } else {
+            this.mode = InsertionMode.InBody;
+            this.inBody(rest);
+        }
+    }
+
+    private inFrameset(token: Token): void {
+        const rest = this.splitWhitespace(token, (ws) =>
+            this.insertCharacters(ws),
+        );
+        if (!rest) return;
+
+        if (rest.type === TokenType.Comment) {
+            this.insertComment(rest);
+        } else if (rest.type === TokenType.StartTag) {
+            switch (rest.name) {
+                case "html": {
+                    this.inBody(rest);
+
+                    break;
+                }
+                case "frameset": {
+                    this.insertHtmlElement(rest);
+
+                    break;
+                }
+                case "frame": {
+                    this.insertHtmlElement(rest);
+                    this.pop();
+
+                    break;
+                }
+                case "noframes": {
+                    this.inHead(rest);
+
+                    break;
+                }
+                default: {
+                    // Ignore the token.
+                    break;
+                }
+            }
+        } else if (rest.type === TokenType.EndTag && rest.name === "frameset") {
+            if (this.openElements.length === 1) return;
+            this.pop();
+            if (this.currentNode()!.name !== "frameset") {
+                this.mode = InsertionMode.AfterFrameset;
+            }
+        } else if (rest.type === TokenType.EOF) {
+            this.stopParsing();
+        }
+    }
+
+    private afterFrameset(token: Token): void {
+        const rest = this.splitWhitespace(token, (ws) =>
+            this.insertCharacters(ws),
+        );
+        if (!rest) return;
+
+        if (rest.type === TokenType.Comment) {
+            this.insertComment(rest);
+        } else if (rest.type === TokenType.StartTag) {
+            if (rest.name === "html") {
+                this.inBody(rest);
+            } else if (rest.name === "noframes") {
+                this.inHead(rest);
+            }
+        } else if (rest.type === TokenType.EndTag && rest.name === "html") {
+            this.close(this.openElements[0]);
+            this.mode = InsertionMode.AfterAfterFrameset;
+        } else if (rest.type === TokenType.EOF) {
+            this.stopParsing();
+        }
+    }
+
+    private afterAfterBody(token: Token): void {
+        const rest = this.splitWhitespace(token, (ws) => this.inBody(ws));
+        if (!rest || rest.type === TokenType.Doctype) return;
+
+        if (rest.type === TokenType.Comment) {
+            this.insertNode(rest.node, {
+                parent: this.document,
+                before: null,
+            });
+        } else if (rest.type === TokenType.StartTag && rest.name === "html") {
+            this.inBody(rest);
+        } else if (rest.type === TokenType.EOF) {
+            this.stopParsing();
+        } else {
+            this.mode = InsertionMode.InBody;
+            this.inBody(rest);
+        }
+    }
+
+    private afterAfterFrameset(token: Token): void {
+        const rest = this.splitWhitespace(token, (ws) => this.inBody(ws));
+        if (!rest) return;
+
+        switch (rest.type) {
+            case TokenType.Comment: {
+                this.insertNode(rest.node, {
+                    parent: this.document,
+                    before: null,
+                });
+
+                break;
+            }
+            case TokenType.StartTag: {
+                if (rest.name === "html") {
+                    this.inBody(rest);
+                } else if (rest.name === "noframes") {
+                    this.inHead(rest);
+                }
+
+                break;
+            }
+            case TokenType.EOF: {
+                this.stopParsing();
+
+                break;
+            }
+            default: {
+                // Ignore the token.
+                break;
+            }
+        }
+    }
+
+    /** @see https://html.spec.whatwg.org/multipage/parsing.html#parsing-main-inforeign */
+    private processInForeignContent(token: Token): void {
+        switch (token.type) {
+            case TokenType.Characters: {
+                this.insertCharacters(token);
+                if (!reOnlyWhitespace.test(token.data)) {
+                    this.framesetOk = false;
+                }
+                return;
+            }
+            case TokenType.Comment: {
+                this.insertComment(token);
+                return;
+            }
+            case TokenType.StartTag: {
+                if (
+                    foreignBreakoutElements.has(token.name) ||
+                    (token.name === "font" &&
+                        ("color" in token.attribs ||
+                            "face" in token.attribs ||
+                            "size" in token.attribs))
+                ) {
+                    let node = this.currentNode()!;
+                    while (
+                        node.namespace !== Namespace.HTML &&
+                        !isMathMLTextIntegrationPoint(node) &&
+                        !isHtmlIntegrationPoint(node)
+                    ) {
+                        this.pop();
+                        node = this.currentNode()!;
+                    }
+                    // In fragments, the context might still be foreign.
+                    this.processInMode(token, this.mode);
+                    return;
+                }
+
+                this.insertForeignElement(
+                    token,
+                    this.adjustedCurrentNode()!.namespace,
+                );
+                return;
+            }
+            case TokenType.EndTag: {
+                const name = token.name.toLowerCase();
+
+                for (
+                    let index = this.openElements.length - 1;
+                    index > 0;
+                    index--
+                ) {
+                    const node = this.openElements[index];
+
+                    if (node.name.toLowerCase() === name) {
+                        while (this.openElements.length > index) this.pop();
+                        return;
+                    }
+
+                    if (
+                        this.openElements[index - 1].namespace ===
+                        Namespace.HTML
+                    ) {
+                        this.processInMode(token, this.mode);
+                        return;
+                    }
+                }
+                return;
+            }
+            case TokenType.Doctype:
+            case TokenType.EOF: {
+                // Ignore the token.
+                break;
+            }
+        }
+    }
+
+    // Helpers
+
+    private currentNode(): TreeElement | undefined {
+        return this.openElements[this.openElements.length - 1];
+    }
+
+    /** @see https://html.spec.whatwg.org/multipage/parsing.html#adjusted-current-node */
+    private adjustedCurrentNode(): TreeElement | undefined {
+        return this.context && this.openElements.length === 1
+            ? this.context
+            : this.currentNode();
+    }
+
+    private createElement(
+        token: StartTagToken,
+        namespace: Namespace,
+        isImplied: boolean,
+    ): TreeElement {
+        return {
+            type: "element",
+            name: token.name,
+            namespace,
+            attribs: { ...token.attribs },
+            attributes: [...token.attributes],
+            children: [],
+            parent: null,
+            startIndex: this.token!.startIndex,
+            endIndex: this.token!.endIndex,
+            isImplied,
+            isSelfClosing: !isImplied && token.selfClosing,
+            isClosed: false,
+            isCloseImplied: true,
+            closeStartIndex: this.token!.startIndex,
+            closeEndIndex: this.token!.endIndex,
+        };
+    }
+
+    private createImpliedElement(name: string): TreeElement {
+        return this.createElement(
+            {
+                type: TokenType.StartTag,
+                name,
+                attribs: {},
+                attributes: [],
+                selfClosing: false,
+                startIndex: 0,
+                endIndex: 0,
+            },
+            Namespace.HTML,
+            true,
+        );
+    }
+
+    private insertElement(element: TreeElement): TreeElement {
+        this.insertNode(element, this.appropriateInsertionLocation());
+        this.openElements.push(element);
+        return element;
+    }
+
+    private insertHtmlElement(token: StartTagToken): TreeElement {
+        return this.insertElement(
+            this.createElement(token, Namespace.HTML, token !== this.token),
+        );
+    }
+
+    private insertImpliedElement(name: string): TreeElement {
+        return this.insertElement(this.createImpliedElement(name));
+    }
+
+    private insertForeignElement(
+        token: StartTagToken,
+        namespace: Namespace,
+    ): void {
+        const element = this.createElement(token, namespace, false);
+        element.name = adjustTagName(element.name, namespace);
+        element.attribs = {};
+
+        for (const [name, value] of Object.entries(token.attribs)) {
+            element.attribs[adjustAttributeName(name, namespace)] = value;
+        }
+
+        element.attributes = token.attributes.map((attribute) => {
+            const name = adjustAttributeName(attribute.name, namespace);
+            return {
+                ...attribute,
+                name,
+                ...getForeignAttributeName(name, namespace),
+            };
+        });
+
+        this.insertElement(element);
+        if (token.selfClosing) {
+            this.pop();
+            this.acknowledgedSelfClosing = true;
+        }
+    }
+
+    /**
+     * Inserts an element whose contents are consumed as text by the tokenizer.
+     * Other elements are inserted as regular elements.
+     */
+    private insertRawText(token: StartTagToken): void {
+        this.insertHtmlElement(token);
+
+        if (!this.textElements.has(token.name)) return;
+
+        if (token.selfClosing) {
+            // The tokenizer leaves the raw text state for self-closing tags.
+            this.pop();
+        } else {
+            this.originalMode = this.mode;
+            this.mode = InsertionMode.Text;
+        }
+    }
+
+    private insertComment(token: CommentToken): void {
+        this.insertNode(token.node, this.appropriateInsertionLocation());
+    }
+
+    private insertCharacters(token: CharactersToken): void {
+        if (token.data === "") return;
+
+        const location = this.appropriateInsertionLocation();
+
+        // Text can't be inserted directly into the document.
+        if (location.parent.type === "document") return;
+
+        const { children } = location.parent;
+        const index = location.before
+            ? children.indexOf(location.before)
+            : children.length;
+        const previous = children[index - 1] as TreeNode | undefined;
+
+        if (previous?.type === "text") {
+            previous.data += token.data;
+            previous.endIndex = token.endIndex;
+        } else {
+            this.insertNode(
+                {
+                    type: "text",
+                    data: token.data,
+                    parent: null,
+                    startIndex: token.startIndex,
+                    endIndex: token.endIndex,
+                },
+                location,
+            );
+        }
+    }
+
+    private insertNode(node: TreeNode, location: InsertionLocation): void {
+        const { parent, before } = location;
+        const index = before
+            ? parent.children.indexOf(before)
+            : parent.children.length;
+
+        parent.children.splice(index, 0, node);
+        node.parent = parent;
+    }
+
+    private detach(node: TreeNode): void {
+        if (!node.parent) return;
+
+        const { children } = node.parent;
+        children.splice(children.indexOf(node), 1);
+        node.parent = null;
+    }
+
+    /** @see https://html.spec.whatwg.org/multipage/parsing.html#appropriate-place-for-inserting-a-node */
+    private appropriateInsertionLocation(
+        target: TreeElement = this.currentNode()!,
+    ): InsertionLocation {
+        if (
+            this.fosterParenting &&
+            target.namespace === Namespace.HTML &&
+            fosterParentTargets.has(target.name)
+        ) {
+            const lastTemplate = this.lastOpenElement("template");
+            const lastTable = this.lastOpenElement("table");
+
+            if (
+                lastTemplate &&
+                (!lastTable ||
+                    this.openElements.indexOf(lastTemplate) >
+                        this.openElements.indexOf(lastTable))
+            ) {
+                return { parent: lastTemplate, before: null };
+            }
+
+            if (!lastTable) {
+                return { parent: this.openElements[0], before: null };
+            }
+
+            if (lastTable.parent) {
+                return { parent: lastTable.parent, before: lastTable };
+            }
+
+            const previous =
+                this.openElements[this.openElements.indexOf(lastTable) - 1];
+            return { parent: previous, before: null };
+        }
+
+        return { parent: target, before: null };
+    }
+
+    private lastOpenElement(name: string): TreeElement | undefined {
+        for (let index = this.openElements.length - 1; index >= 0; index--) {
+            const element = this.openElements[index];
+            if (element.name === name && element.namespace === Namespace.HTML) {
+                return element;
+            }
+        }
+        return undefined;
+    }
+
+    private hasOpenElement(name: string): boolean {
+        return this.lastOpenElement(name) !== undefined;
+    }
+
+    private mergeAttributes(element: TreeElement, token: StartTagToken): void {
+        for (const attribute of token.attributes) {
+            if (
+                !Object.prototype.hasOwnProperty.call(
+                    element.attribs,
+                    attribute.name,
+                )
+            ) {
+                element.attribs[attribute.name] = attribute.value;
+                element.attributes.push(attribute);
+            }
+        }
+    }
+
+    /** Marks an element as closed by the current token. */
+    private close(element: TreeElement): void {
+        if (element.isClosed) return;
+
+        const token = this.token!;
+        element.isClosed = true;
+        element.closeStartIndex = token.startIndex;
+        element.closeEndIndex = token.endIndex;
+
+        if (
+            token.type === TokenType.EndTag &&
+            !this.endTagMatched &&
+            token.name === element.name
+        ) {
+            this.endTagMatched = true;
+            element.isCloseImplied = false;
+        }
+    }
+
+    private pop(): TreeElement {
+        const element = this.openElements.pop()!;
+        this.close(element);
+        return element;
+    }
+
+    /** Pops elements until an HTML element with the given name has been popped. */
+    private popUntil(name: string): void {
+        let element;
+        do {
+            element = this.pop();
+        } while (
+            this.openElements.length > 0 &&
+            (element.name !== name || element.namespace !== Namespace.HTML)
+        );
+    }
+
+    private removeFromStack(element: TreeElement): void {
+        const index = this.openElements.indexOf(element);
+        if (index < 0) return;
+
+        this.openElements.splice(index, 1);
+        this.close(element);
+    }
+
+    private clearStackBackTo(context: Set<string>): void {
+        while (!context.has(this.currentNode()!.name)) this.pop();
+    }
+
+    private generateImpliedEndTags(tags: Set<string>, except?: string): void {
+        let node = this.currentNode();
+        while (node && tags.has(node.name) && node.name !== except) {
+            this.pop();
+            node = this.currentNode();
+        }
+    }
+
+    private closeParagraph(): void {
+        this.generateImpliedEndTags(impliedEndTags, "p");
+        this.popUntil("p");
+    }
+
+    private closeParagraphInButtonScope(): void {
+        if (this.hasElementInScope("p", buttonScope)) this.closeParagraph();
+    }
+
+    /** @see https://html.spec.whatwg.org/multipage/parsing.html#has-an-element-in-the-specific-scope */
+    private isInScope(
+        target: TreeElement | ((node: TreeElement) => boolean),
+        scope: Set<string>,
+    ): boolean {
+        for (let index = this.openElements.length - 1; index >= 0; index--) {
+            const node = this.openElements[index];
+
+            if (typeof target === "function" ? target(node) : node === target) {
+                return true;
+            }
+
+            if (scope === selectScope) {
+                if (
+                    node.namespace !== Namespace.HTML ||
+                    (node.name !== "optgroup" && node.name !== "option")
+                ) {
+                    return false;
+                }
+            } else if (
+                node.namespace === Namespace.HTML
+                    ? scope.has(node.name)
+                    : scope !== tableScope && isScopeBoundary(node)
+            ) {
+                return false;
+            }
+        }
+
+        return false;
+    }
+
+    private hasElementInScope(name: string, scope: Set<string>): boolean {
+        return this.isInScope(
+            (node) => node.name === name && node.namespace === Namespace.HTML,
+            scope,
+        );
+    }
+
+    private hasAnyElementInScope(
+        names: Set<string>,
+        scope: Set<string>,
+    ): boolean {
+        return this.isInScope(
+            (node) => names.has(node.name) && node.namespace === Namespace.HTML,
+            scope,
+        );
+    }
+
+    /** @see https://html.spec.whatwg.org/multipage/parsing.html#reset-the-insertion-mode-appropriately */
+    private resetInsertionMode(): void {
+        for (let index = this.openElements.length - 1; index >= 0; index--) {
+            const last = index === 0;
+            const node =
+                last && this.context ? this.context : this.openElements[index];
+
+            switch (node.name) {
+                case "select": {
+                    for (let ancestor = index - 1; ancestor > 0; ancestor--) {
+                        const { name } = this.openElements[ancestor];
+                        if (name === "template") break;
+                        if (name === "table") {
+                            this.mode = InsertionMode.InSelectInTable;
+                            return;
+                        }
+                    }
+                    this.mode = InsertionMode.InSelect;
+                    return;
+                }
+                case "td":
+                case "th": {
+                    if (last) break;
+                    this.mode = InsertionMode.InCell;
+                    return;
+                }
+                case "tr": {
+                    this.mode = InsertionMode.InRow;
+                    return;
+                }
+                case "tbody":
+                case "thead":
+                case "tfoot": {
+                    this.mode = InsertionMode.InTableBody;
+                    return;
+                }
+                case "caption": {
+                    this.mode = InsertionMode.InCaption;
+                    return;
+                }
+                case "colgroup": {
+                    this.mode = InsertionMode.InColumnGroup;
+                    return;
+                }
+                case "table": {
+                    this.mode = InsertionMode.InTable;
+                    return;
+                }
+                case "template": {
+                    this.mode =
+                        this.templateModes[this.templateModes.length - 1];
+                    return;
+                }
+                case "head": {
+                    if (last) break;
+                    this.mode = InsertionMode.InHead;
+                    return;
+                }
+                case "body": {
+                    this.mode = InsertionMode.InBody;
+                    return;
+                }
+                case "frameset": {
+                    this.mode = InsertionMode.InFrameset;
+                    return;
+                }
+                case "html": {
+                    this.mode = this.headElement
+                        ? InsertionMode.AfterHead
+                        : InsertionMode.BeforeHead;
+                    return;
+                }
+            }
+        }
+
+        this.mode = InsertionMode.InBody;
+    }
+
+    // The list of active formatting elements
+
+    private pushFormattingElement(
+        element: TreeElement,
+        token: StartTagToken,
+    ): void {
+        const list = this.activeFormattingElements;
+        let matches = 0;
+        let earliest = -1;
+
+        // The "Noah's Ark" clause: Keep at most three identical elements.
+        for (let index = list.length - 1; index >= 0; index--) {
+            const entry = list[index];
+            if (!entry) break;
+            if (
+                entry.element.name === element.name &&
+                haveSameAttributes(entry.element, element)
+            ) {
+                matches++;
+                earliest = index;
+            }
+        }
+
+        if (matches >= 3) list.splice(earliest, 1);
+        list.push({ element, token });
+    }
+
+    private findFormattingElement(name: string): TreeElement | null {
+        const list = this.activeFormattingElements;
+        for (let index = list.length - 1; index >= 0; index--) {
+            const entry = list[index];
+            if (!entry) break;
+            if (entry.element.name === name) return entry.element;
+        }
+        return null;
+    }
+
+    private formattingElementIndex(element: TreeElement): number {
+        return this.activeFormattingElements.findIndex(
+            (entry) => entry?.element === element,
+        );
+    }
+
+    private removeFormattingElement(element: TreeElement): void {
+        const index = this.formattingElementIndex(element);
+        if (index >= 0) this.activeFormattingElements.splice(index, 1);
+    }
+
+    private clearActiveFormattingElementsToMarker(): void {
+        const list = this.activeFormattingElements;
+        while (list.length > 0 && list.pop() !== null);
+    }
+
+    /** @see https://html.spec.whatwg.org/multipage/parsing.html#reconstruct-the-active-formatting-elements */
+    private reconstructActiveFormattingElements(): void {
+        const list = this.activeFormattingElements;
+        if (list.length === 0) return;
+
+        let index = list.length - 1;
+        if (isMarkerOrOpen(list[index], this.openElements)) return;
+
+        while (
+            index > 0 &&
+            !isMarkerOrOpen(list[index - 1], this.openElements)
+        ) {
+            index--;
+        }
+
+        for (; index < list.length; index++) {
+            const { token } = list[index]!;
+            const element = this.insertHtmlElement(token);
+            element.isImplied = true;
+            list[index] = { element, token };
+        }
+    }
+
+    /** @see https://html.spec.whatwg.org/multipage/parsing.html#adoption-agency-algorithm */
+    private adoptionAgency(subject: string): void {
+        const current = this.currentNode()!;
+        if (
+            current.name === subject &&
+            current.namespace === Namespace.HTML &&
+            this.formattingElementIndex(current) < 0
+        ) {
+            this.pop();
+            return;
+        }
+
+        for (let outer = 0; outer < 8; outer++) {
+            const formattingElement = this.findFormattingElement(subject);
+            if (!formattingElement) {
+                this.anyOtherEndTag(subject);
+                return;
+            }
+
+            const formattingIndex =
+                this.openElements.indexOf(formattingElement);
+            if (formattingIndex < 0) {
+                this.removeFormattingElement(formattingElement);
+                return;
+            }
+            if (!this.isInScope(formattingElement, defaultScope)) return;
+
+            let furthestBlock: TreeElement | null = null;
+            for (
+                let index = formattingIndex + 1;
+                index < this.openElements.length;
+                index++
+            ) {
+                if (isSpecial(this.openElements[index])) {
+                    furthestBlock = this.openElements[index];
+                    break;
+                }
+            }
+
+            if (!furthestBlock) {
+                while (this.openElements.length > formattingIndex) this.pop();
+                this.removeFormattingElement(formattingElement);
+                return;
+            }
+
+            const commonAncestor = this.openElements[formattingIndex - 1];
+            let bookmark = this.formattingElementIndex(formattingElement);
+            let lastNode = furthestBlock;
+            let nodeIndex = this.openElements.indexOf(furthestBlock);
+
+            for (let inner = 1; ; inner++) {
+                nodeIndex--;
+                let node = this.openElements[nodeIndex];
+                if (node === formattingElement) break;
+
+                let entryIndex = this.formattingElementIndex(node);
+                if (inner > 3 && entryIndex >= 0) {
+                    this.activeFormattingElements.splice(entryIndex, 1);
+                    if (entryIndex < bookmark) bookmark--;
+                    entryIndex = -1;
+                }
+
+                if (entryIndex < 0) {
+                    this.openElements.splice(nodeIndex, 1);
+                    this.close(node);
+                    continue;
+                }
+
+                const { token } = this.activeFormattingElements[entryIndex]!;
+                const clone = this.createElement(token, Namespace.HTML, true);
+                this.activeFormattingElements[entryIndex] = {
+                    element: clone,
+                    token,
+                };
+                this.openElements[nodeIndex] = clone;
+                this.close(node);
+                node = clone;
+
+                if (lastNode === furthestBlock) bookmark = entryIndex + 1;
+
+                this.detach(lastNode);
+                this.insertNode(lastNode, { parent: node, before: null });
+                lastNode = node;
+            }
+
+            this.detach(lastNode);
+            this.insertNode(
+                lastNode,
+                this.appropriateInsertionLocation(commonAncestor),
+            );
+
+            const formattingEntry =
+                this.activeFormattingElements[
+                    this.formattingElementIndex(formattingElement)
+                ]!;
+            const element = this.createElement(
+                formattingEntry.token,
+                Namespace.HTML,
+                true,
+            );
+
+            for (const child of furthestBlock.children) {
+                child.parent = element;
+            }
+            element.children = furthestBlock.children;
+            furthestBlock.children = [];
+            this.insertNode(element, { parent: furthestBlock, before: null });
+
+            const entryIndex = this.formattingElementIndex(formattingElement);
+            this.activeFormattingElements.splice(bookmark, 0, {
+                element,
+                token: formattingEntry.token,
+            });
+            this.activeFormattingElements.splice(
+                entryIndex < bookmark ? entryIndex : entryIndex + 1,
+                1,
+            );
+
+            this.removeFromStack(formattingElement);
+            this.openElements.splice(
+                this.openElements.indexOf(furthestBlock) + 1,
+                0,
+                element,
+            );
+        }
+    }
+
+    private stopParsing(): void {
+        while (this.openElements.length > 0) this.pop();
+    }
+}
+
+function isMarkerOrOpen(
+    entry: FormattingEntry,
+    openElements: TreeElement[],
+): boolean {
+    return entry === null || openElements.includes(entry.element);
+}
+
+function isOneOf(name: string, ...names: string[]): boolean {
+    return names.includes(name);
+}
+
+function isSpecial(node: TreeElement): boolean {
+    return node.namespace === Namespace.HTML
+        ? specialElements.has(node.name)
+        : isScopeBoundary(node);
+}
+
+/** MathML and SVG elements that act as scope boundaries. */
+function isScopeBoundary(node: TreeElement): boolean {
+    return (
+        isMathMLTextIntegrationPoint(node) ||
+        (node.namespace === Namespace.MathML &&
+            node.name === "annotation-xml") ||
+        (node.namespace === Namespace.SVG &&
+            svgHtmlIntegrationPoints.has(node.name.toLowerCase()))
+    );
+}
+
+function isMathMLTextIntegrationPoint(node: TreeElement): boolean {
+    return (
+        node.namespace === Namespace.MathML &&
+        mathMLTextIntegrationPoints.has(node.name)
+    );
+}
+
+function isHtmlIntegrationPoint(node: TreeElement): boolean {
+    if (node.namespace === Namespace.MathML) {
+        if (node.name !== "annotation-xml") return false;
+        const encoding = getAttribute(node.attribs, "encoding")?.toLowerCase();
+        return encoding === "text/html" || encoding === "application/xhtml+xml";
+    }
+
+    return (
+        node.namespace === Namespace.SVG &&
+        svgHtmlIntegrationPoints.has(node.name.toLowerCase())
+    );
+}
+
+function isHiddenInput(token: StartTagToken): boolean {
+    return getAttribute(token.attribs, "type")?.toLowerCase() === "hidden";
+}
+
+function getAttribute(
+    attribs: Record<string, string>,
+    name: string,
+): string | undefined {
+    return Object.prototype.hasOwnProperty.call(attribs, name)
+        ? attribs[name]
+        : undefined;
+}
+
+function haveSameAttributes(a: TreeElement, b: TreeElement): boolean {
+    const keys = Object.keys(a.attribs);
+    return (
+        keys.length === Object.keys(b.attribs).length &&
+        keys.every(
+            (key) =>
+                Object.prototype.hasOwnProperty.call(b.attribs, key) &&
+                a.attribs[key] === b.attribs[key],
+        )
+    );
+}
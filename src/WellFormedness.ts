@@ -0,0 +1,70 @@
+import type { ParseErrorCode, SourcePosition } from "./Tokenizer.js";
+
+/**
+ * Violations of the XML well-formedness constraints that are reported in
+ * addition to parse errors if the `strict` option is set.
+ *
+ * @see https://www.w3.org/TR/xml/#sec-well-formed
+ */
+export enum WellFormednessErrorCode {
+    ContentOutsideRootElement = "content-outside-root-element",
+    InvalidName = "invalid-name",
+    InvalidNamespaceDeclaration = "invalid-namespace-declaration",
+    MismatchedEndTag = "mismatched-end-tag",
+    MissingRootElement = "missing-root-element",
+    MultipleRootElements = "multiple-root-elements",
+    UnboundNamespacePrefix = "unbound-namespace-prefix",
+    UnclosedElement = "unclosed-element",
+    UnquotedAttributeValue = "unquoted-attribute-value",
+}
+
+/**
+ * An error for input that isn't well-formed XML. Passed to `Handler.onerror`,
+ * or thrown if the handler doesn't implement `onerror`.
+ */
+export class WellFormednessError extends Error {
+    override name = "WellFormednessError";
+
+    /**
+     * @param code The violated constraint. Parse errors of the tokenizer keep
+     * their code.
+     * @param startIndex The index of the first character of the violation.
+     * @param endIndex The index of the last character of the violation.
+     * @param startPosition The line and column of `startIndex`, if the
+     * `sourceCodeLocationInfo` option is set.
+     * @param endPosition The line and column of `endIndex`, if the
+     * `sourceCodeLocationInfo` option is set.
+     */
+    constructor(
+        public readonly code: WellFormednessErrorCode | ParseErrorCode,
+        public readonly startIndex: number,
+        public readonly endIndex: number,
+        public readonly startPosition: SourcePosition | null = null,
+        public readonly endPosition: SourcePosition | null = null,
+    ) {
+        super(
+            startPosition
+                ? `${code} at line ${startPosition.line}, column ${startPosition.column}`
+                : `${code} at index ${startIndex}`,
+        );
+    }
+}
+
+/**
+ * Matches the `Name` production of XML.
+ *
+ * @see https://www.w3.org/TR/xml/#NT-Name
+ */
+const nameStartChar = String.raw`[:A-Z_a-z\xC0-\xD6\xD8-\xF6\xF8-\u02FF\u0370-\u037D\u037F-\u1FFF\u200C\u200D\u2070-\u218F\u2C00-\u2FEF\u3001-\uD7FF\uF900-\uFDCF\uFDF0-\uFFFD\u{10000}-\u{EFFFF}]`;
+const nameChar = String.raw`[-.0-9\xB7\u0300-\u036F\u203F\u2040]`;
+// The classes contain combining characters and joiners on purpose.
+// eslint-disable-next-line no-misleading-character-class
+const reXmlName = new RegExp(
+    `^${nameStartChar}(?:${nameStartChar}|${nameChar})*$`,
+    "u",
+);
+
+/** Checks if a string is a valid XML name. */
+export function isXmlName(name: string): boolean {
+    return reXmlName.test(name);
+}
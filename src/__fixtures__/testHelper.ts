@@ -43,6 +43,17 @@ export function getEventCollector(
                 // Don't collect event
                 break;
             }
+            case "onparseerror": {
+                // Parse errors carry their own location.
+                events.push({
+                    $event: "parseerror",
+                    startIndex: data[1] as number,
+                    endIndex: data[2] as number,
+                    data: [data[0]],
+                });
+
+                break;
+            }
             default: {
                 // eslint-disable-next-line unicorn/prefer-at
                 const last = events[events.length - 1];
@@ -51,13 +62,19 @@ export function getEventCollector(
                 // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
                 if (event === "ontext" && last && last.$event === "text") {
                     (last.data[0] as string) += data[0];
+                    // Combine the raw source as well, if it is present
+                    if (data.length > 1) (last.data[1] as string) += data[1];
                     last.endIndex = parser.endIndex;
 
                     break;
                 }
 
                 // Remove `undefined`s from attribute responses, as they cannot be represented in JSON.
-                if (event === "onattribute" && data[2] === undefined) {
+                if (
+                    event === "onattribute" &&
+                    data.length === 3 &&
+                    data[2] === undefined
+                ) {
                     data.pop();
                 }
 
@@ -2,13 +2,21 @@ import { describe, it, expect } from "vitest";
 import {
     parseDocument,
     parseDOM,
+    parseFragment,
     createDocumentStream,
     createDomStream,
     DomHandler,
     DefaultHandler,
     type Parser,
+    type Attribute,
 } from "./index.js";
-import { Element } from "domhandler";
+import {
+    type Document,
+    Element,
+    isDocument,
+    type ProcessingInstruction,
+} from "domhandler";
+import { getOuterHTML } from "domutils";
 
 // Add an `attributes` prop to the Element for now, to make it possible for Jest to render DOM nodes.
 Object.defineProperty(Element.prototype, "attributes", {
@@ -33,6 +41,63 @@ describe("Index", () => {
         expect(dom).toMatchSnapshot();
     });
 
+    describe("parseFragment", () => {
+        it("should parse the content of the context element", () => {
+            const options = { context: "tr", treeConstruction: true };
+
+            expect(
+                getOuterHTML(parseFragment("<td>a</td><td>b", options)),
+            ).toBe("<td>a</td><td>b</td>");
+            expect(
+                getOuterHTML(
+                    parseFragment("<td>a</td><td>b", { context: "tr" }),
+                ),
+            ).toBe("<td>a</td><td>b</td>");
+        });
+
+        it.each([
+            ["textarea", "<b>&</b></textarea>x"],
+            ["title", "<b>&</b></title>x"],
+            ["script", "<b>&amp;</b></script>x"],
+            ["style", "<b>&amp;</b></style>x"],
+        ])("should parse all content of %s as text", (context, text) => {
+            const html = `<b>&amp;</b></${context}>x`;
+
+            for (const treeConstruction of [false, true]) {
+                const dom = parseFragment(html, { context, treeConstruction });
+
+                expect(dom).toHaveLength(1);
+                expect(dom[0]).toHaveProperty("data", text);
+            }
+        });
+
+        it("should start in foreign content", () => {
+            expect(
+                getOuterHTML(
+                    parseFragment("<path/><circle/>", { context: "svg" }),
+                ),
+            ).toBe("<path></path><circle></circle>");
+            expect(
+                getOuterHTML(
+                    parseFragment("<path/><p>a", {
+                        context: "svg",
+                        treeConstruction: true,
+                    }),
+                ),
+            ).toBe("<path></path><p>a</p>");
+        });
+
+        it("should not imply a document structure", () => {
+            expect(
+                getOuterHTML(
+                    parseFragment("<!--a--><title>b</title>c", {
+                        treeConstruction: true,
+                    }),
+                ),
+            ).toBe("<!--a--><title>b</title>c");
+        });
+    });
+
     it("createDocumentStream", () => {
         let documentStream!: Parser;
 
@@ -71,6 +136,241 @@ describe("Index", () => {
         return expect(domPromise).resolves.toMatchSnapshot();
     });
 
+    it("should add source code locations", () => {
+        const dom = parseDocument("<div>\n  <p>Foo</p>\n</div>", {
+            sourceCodeLocationInfo: true,
+        });
+        const div = dom.children[0] as Element;
+        const p = div.children[1] as Element;
+
+        expect(div.sourceCodeLocation).toEqual({
+            startLine: 1,
+            startCol: 1,
+            startOffset: 0,
+            endLine: 3,
+            endCol: 7,
+            endOffset: 25,
+            startTag: {
+                startLine: 1,
+                startCol: 1,
+                startOffset: 0,
+                endLine: 1,
+                endCol: 6,
+                endOffset: 5,
+            },
+            endTag: {
+                startLine: 3,
+                startCol: 1,
+                startOffset: 19,
+                endLine: 3,
+                endCol: 7,
+                endOffset: 25,
+            },
+        });
+        expect(p.children[0].sourceCodeLocation).toEqual({
+            startLine: 2,
+            startCol: 6,
+            startOffset: 11,
+            endLine: 2,
+            endCol: 9,
+            endOffset: 14,
+        });
+    });
+
+    it("should keep attribute source ranges", () => {
+        const html = `<a href = "/foo" title='bar' download>`;
+        const dom = parseDocument(html, { syntaxDetails: true });
+        const attributes = (dom.children[0] as Element)[
+            "x-attributes" as keyof Element
+        ] as Attribute[];
+
+        expect(attributes).toHaveLength(3);
+        expect(
+            attributes.map(
+                ({
+                    nameStartIndex,
+                    nameEndIndex,
+                    valueStartIndex,
+                    valueEndIndex,
+                    quote,
+                }) => [
+                    html.slice(nameStartIndex, nameEndIndex),
+                    html.slice(valueStartIndex, valueEndIndex),
+                    quote,
+                ],
+            ),
+        ).toEqual([
+            ["href", "/foo", '"'],
+            ["title", "bar", "'"],
+            ["download", "", undefined],
+        ]);
+    });
+
+    it("should only keep the attribute list with `syntaxDetails`", () => {
+        const dom = parseDocument(`<svg><a xlink:href="#"></a></svg>`);
+        const [a] = (dom.children[0] as Element).children as Element[];
+
+        expect(a).not.toHaveProperty("x-attributes");
+        expect(a["x-attribsNamespace"]).toEqual({
+            "xlink:href": "http://www.w3.org/1999/xlink",
+        });
+        expect(a["x-attribsPrefix"]).toEqual({ "xlink:href": "xlink" });
+    });
+
+    it("should keep attributes in source order", () => {
+        const dom = parseDocument(
+            `<svg><rect 2=a ViewBox='0 0 1 1' 1="b" 2=c /></svg>`,
+            { syntaxDetails: true },
+        );
+        const [rect] = (dom.children[0] as Element).children;
+        const attributes = (rect as Element)[
+            "x-attributes" as keyof Element
+        ] as Attribute[];
+
+        expect(
+            attributes.map(({ name, value, quote, rawName }) => ({
+                name,
+                value,
+                quote,
+                rawName,
+            })),
+        ).toEqual([
+            { name: "2", value: "a", quote: null, rawName: "2" },
+            {
+                name: "viewBox",
+                value: "0 0 1 1",
+                quote: "'",
+                rawName: "ViewBox",
+            },
+            { name: "1", value: "b", quote: '"', rawName: "1" },
+            { name: "2", value: "c", quote: null, rawName: "2" },
+        ]);
+        expect(Object.keys((rect as Element).attribs)).toEqual([
+            "1",
+            "2",
+            "viewBox",
+        ]);
+    });
+
+    it("should keep the first value of repeated attributes", () => {
+        const dom = parseDocument("<a href=1 href=2>", {
+            duplicateAttributes: "all",
+        });
+        const a = dom.children[0] as Element;
+
+        expect(a.attribs).toEqual({ href: "1" });
+        expect(
+            (a["x-attributes" as keyof Element] as Attribute[]).map(
+                ({ value }) => value,
+            ),
+        ).toEqual(["1", "2"]);
+        expect(getOuterHTML(dom)).toBe('<a href="1"></a>');
+    });
+
+    it("should mark elements written with self-closing syntax", () => {
+        const [div] = parseDocument("<div/><br/><br>", { syntaxDetails: true })
+            .children as Element[];
+        const [br1, br2] = div.children;
+
+        expect(div).toHaveProperty("x-selfClosing", true);
+        expect(br1).toHaveProperty("x-selfClosing", true);
+        expect(br2).not.toHaveProperty("x-selfClosing");
+        expect(parseDocument("<br/>").children[0]).not.toHaveProperty(
+            "x-selfClosing",
+        );
+    });
+
+    it("should add doctype details", () => {
+        const dom = parseDocument(
+            '<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">',
+        );
+        const doctype = dom.children[0] as ProcessingInstruction;
+
+        expect(doctype["x-name"]).toBe("html");
+        expect(doctype["x-publicId"]).toBe(
+            "-//W3C//DTD XHTML 1.0 Transitional//EN",
+        );
+        expect(doctype["x-systemId"]).toBe(
+            "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd",
+        );
+        expect(dom["x-mode"]).toBe("limited-quirks");
+        expect(parseDocument("<p>")["x-mode"]).toBeUndefined();
+    });
+
+    it("should add namespaces", () => {
+        const dom = parseDocument(
+            '<rss xmlns:atom="http://www.w3.org/2005/Atom"><atom:link atom:rel="self" href="/"/></rss>',
+            { xmlMode: true, xmlNamespaces: true },
+        );
+        const rss = dom.children[0] as Element;
+        const link = rss.children[0] as Element;
+
+        expect(rss.namespace).toBeUndefined();
+        expect(link.namespace).toBe("http://www.w3.org/2005/Atom");
+        expect(link["x-attribsNamespace"]).toEqual({
+            "atom:rel": "http://www.w3.org/2005/Atom",
+        });
+        expect(link["x-attribsPrefix"]).toEqual({ "atom:rel": "atom" });
+
+        const [html] = parseDocument(
+            '<html xmlns="http://www.w3.org/1999/xhtml"/>',
+            { xmlMode: true, xmlNamespaces: true },
+        ).children as Element[];
+        expect(html.namespace).toBe("http://www.w3.org/1999/xhtml");
+    });
+
+    it("should add the namespaces of foreign elements", () => {
+        const dom = parseDocument(
+            "<svg><title>a</title><foreignObject><title>b</title></foreignObject></svg><math><mi>",
+        );
+        const [svg, math] = dom.children as Element[];
+        const [svgTitle, foreignObject] = svg.children as Element[];
+        const htmlTitle = foreignObject.children[0] as Element;
+
+        expect(svg.namespace).toBe("http://www.w3.org/2000/svg");
+        expect(svgTitle.namespace).toBe("http://www.w3.org/2000/svg");
+        expect(foreignObject.namespace).toBe("http://www.w3.org/2000/svg");
+        expect(htmlTitle.namespace).toBeUndefined();
+        expect(math.namespace).toBe("http://www.w3.org/1998/Math/MathML");
+        expect((math.children[0] as Element).namespace).toBe(
+            "http://www.w3.org/1998/Math/MathML",
+        );
+    });
+
+    it("should imply the document structure", () => {
+        const options = { impliedStructure: true };
+
+        expect(getOuterHTML(parseDocument("<div>a</div>", options))).toBe(
+            "<html><head></head><body><div>a</div></body></html>",
+        );
+        expect(
+            getOuterHTML(
+                parseDocument("<meta charset=utf-8><link>a<link>", options),
+            ),
+        ).toBe(
+            '<html><head><meta charset="utf-8"><link></head><body>a<link></body></html>',
+        );
+    });
+
+    it("should place the content of templates in a fragment", () => {
+        const [list] = parseDocument("<li>a<template><li>b</template>")
+            .children as Element[];
+        const [, template] = list.children as Element[];
+        const content = template["x-content" as keyof Element] as Document;
+
+        expect(template.children).toHaveLength(0);
+        expect(isDocument(content)).toBe(true);
+        expect(content.parent).toBeNull();
+        expect(getOuterHTML(content)).toBe("<li>b</li>");
+        expect((content.children[0] as Element).parent).toBe(content);
+        expect(getOuterHTML(list)).toBe("<li>a<template></template></li>");
+    });
+
+    it("should not add source code locations by default", () => {
+        const dom = parseDocument("<div>Foo</div>");
+        expect(dom.children[0].sourceCodeLocation).toBeUndefined();
+    });
+
     describe("API", () => {
         it("should export the appropriate APIs", () => {
             expect(DomHandler).toEqual(DefaultHandler);
@@ -1,21 +1,52 @@
 import { Parser, type ParserOptions } from "./Parser.js";
-export type { Handler, ParserOptions } from "./Parser.js";
+export type {
+    Attribute,
+    Handler,
+    IgnoredTagKind,
+    ParserOptions,
+} from "./Parser.js";
+export type { Doctype, DocumentMode } from "./Doctype.js";
+export { Namespace, type QualifiedName } from "./Namespaces.js";
+export {
+    WellFormednessError,
+    WellFormednessErrorCode,
+} from "./WellFormedness.js";
+export { ResourceLimitError, type ResourceLimit } from "./ResourceLimits.js";
+export { defaultSchema, type Schema } from "./Schema.js";
+export {
+    tee,
+    type FilteredHandler,
+    type HandlerEvent,
+} from "./MultiplexHandler.js";
+export { SelectorHandler } from "./SelectorHandler.js";
+export {
+    tokenize,
+    type Token,
+    type TokenizeOptions,
+    type StartTagToken,
+    type EndTagToken,
+    type TextToken,
+    type CommentToken,
+    type CDataToken,
+    type DoctypeToken,
+    type ProcessingInstructionToken,
+} from "./Tokens.js";
 export { Parser } from "./Parser.js";
 
 import {
-    DomHandler,
     type DomHandlerOptions,
     type ChildNode,
     type Element,
     type Document,
 } from "domhandler";
+import { DomHandler } from "./DomHandler.js";
 
+export { type DomHandlerOptions } from "domhandler";
 export {
     DomHandler,
     // Old name for DomHandler
     DomHandler as DefaultHandler,
-    type DomHandlerOptions,
-} from "domhandler";
+} from "./DomHandler.js";
 
 export type Options = ParserOptions & DomHandlerOptions;
 
@@ -32,6 +63,19 @@ export function parseDocument(data: string, options?: Options): Document {
     new Parser(handler, options).end(data);
     return handler.root;
 }
+/**
+ * Parses data as the content of an element, like setting its `innerHTML`,
+ * and returns the resulting nodes.
+ *
+ * @param data The data that should be parsed.
+ * @param options Optional options for the parser and DOM handler. `context`
+ * is the name of the element, and defaults to `body`.
+ */
+export function parseFragment(data: string, options?: Options): ChildNode[] {
+    const handler = new DomHandler(undefined, options);
+    new Parser(handler, { context: "body", ...options }).end(data);
+    return handler.dom;
+}
 /**
  * Parses data, returns an array of the root nodes.
  *
@@ -85,6 +129,10 @@ export {
     default as Tokenizer,
     type Callbacks as TokenizerCallbacks,
     QuoteType,
+    ParseErrorCode,
+    type SourcePosition,
+    type TextElementKind,
+    defaultTextElements,
 } from "./Tokenizer.js";
 
 /*